@@ -1,6 +1,42 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import TabNavigator from './src/navigation/TabNavigator';
+import LoginScreen from './src/screens/LoginScreen';
+import { apiService } from './src/services/api';
+import { SymptomStoreProvider } from './src/store/SymptomStoreProvider';
 
 export default function App() {
-  return <TabNavigator />;
+  const [signedIn, setSignedIn] = useState<boolean | null>(null);
+
+  // Show the login screen until there is a session, and again whenever it ends
+  useEffect(() => {
+    const unsubscribe = apiService.onAuthStateChange(setSignedIn);
+    apiService.isAuthenticated().then(setSignedIn);
+    return unsubscribe;
+  }, []);
+
+  if (signedIn === null) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return signedIn ? (
+    <SymptomStoreProvider>
+      <TabNavigator />
+    </SymptomStoreProvider>
+  ) : (
+    <LoginScreen />
+  );
 }
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+});
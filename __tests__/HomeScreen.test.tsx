@@ -0,0 +1,48 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Text } from 'react-native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import HomeScreen from '../src/screens/HomeScreen';
+import type { HomeStackParamList } from '../src/navigation/HomeStackNavigator';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+jest.mock('@react-navigation/native', () => {
+  const { useEffect } = require('react');
+  return {
+    ...jest.requireActual('@react-navigation/native'),
+    useFocusEffect: (effect: () => void | (() => void)) => useEffect(effect, [effect]),
+  };
+});
+
+setUpFakeBackend();
+
+const renderedTexts = (renderer: ReactTestRenderer.ReactTestRenderer) =>
+  renderer.root.findAllByType(Text).map(node => node.props.children);
+
+// Let the fake backend answer and React commit the result
+async function waitForText(renderer: ReactTestRenderer.ReactTestRenderer, text: string) {
+  for (let attempt = 0; attempt < 50 && !renderedTexts(renderer).includes(text); attempt++) {
+    await ReactTestRenderer.act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+  }
+}
+
+test('lists symptoms from the fake backend', async () => {
+  const navigation = { navigate: jest.fn() } as Partial<
+    StackNavigationProp<HomeStackParamList, 'Home'>
+  > as StackNavigationProp<HomeStackParamList, 'Home'>;
+  let renderer!: ReactTestRenderer.ReactTestRenderer;
+
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<HomeScreen navigation={navigation} />);
+  });
+  await waitForText(renderer, 'Migraine');
+
+  expect(renderedTexts(renderer)).toContain('Migraine');
+  expect(renderedTexts(renderer)).toContain('Seasonal Allergies');
+
+  await ReactTestRenderer.act(async () => renderer.unmount());
+});
@@ -0,0 +1,70 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Alert, Text, type AlertButton } from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import SymptomDetailScreen from '../src/screens/SymptomDetailScreen';
+import EditableMedication from '../src/components/EditableMedication';
+import type { HomeStackParamList } from '../src/navigation/HomeStackNavigator';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+jest.mock('@react-navigation/native', () => {
+  const { useEffect } = require('react');
+  return {
+    ...jest.requireActual('@react-navigation/native'),
+    useFocusEffect: (effect: () => void | (() => void)) => useEffect(effect, [effect]),
+  };
+});
+
+const backend = setUpFakeBackend();
+
+const renderedTexts = (renderer: ReactTestRenderer.ReactTestRenderer) =>
+  renderer.root.findAllByType(Text).map(node => node.props.children);
+
+// Let the fake backend answer and React commit the result
+async function waitUntil(condition: () => boolean) {
+  for (let attempt = 0; attempt < 50 && !condition(); attempt++) {
+    await ReactTestRenderer.act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+  }
+}
+
+test('shows the stages and medications of a symptom and deletes a medication', async () => {
+  const [migraine] = backend.getSymptoms();
+  const [firstStage, secondStage] = migraine.stages;
+  const [medication] = firstStage.medication;
+  const navigation = { navigate: jest.fn(), goBack: jest.fn() } as Partial<
+    StackNavigationProp<HomeStackParamList, 'SymptomDetail'>
+  > as StackNavigationProp<HomeStackParamList, 'SymptomDetail'>;
+  const route: RouteProp<HomeStackParamList, 'SymptomDetail'> = {
+    key: 'SymptomDetail',
+    name: 'SymptomDetail',
+    params: { symptomId: migraine.id },
+  };
+  // Confirm whatever the screen asks
+  jest.spyOn(Alert, 'alert').mockImplementation((_title, _message, buttons?: AlertButton[]) => {
+    buttons?.find(button => button.text === 'Delete')?.onPress?.();
+  });
+
+  let renderer!: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<SymptomDetailScreen navigation={navigation} route={route} />);
+  });
+  await waitUntil(() => renderedTexts(renderer).includes(firstStage.name));
+
+  expect(renderedTexts(renderer)).toEqual(
+    expect.arrayContaining([firstStage.name, secondStage.name, medication.name])
+  );
+
+  const row = renderer.root.find(node => node.type === EditableMedication && node.props.medication.id === medication.id);
+  await ReactTestRenderer.act(async () => row.props.onDelete(medication));
+  await waitUntil(() => !renderedTexts(renderer).includes(medication.name));
+
+  expect(renderedTexts(renderer)).not.toContain(medication.name);
+  expect(backend.getSymptoms()[0].stages[0].medication.map(m => m.id)).not.toContain(medication.id);
+
+  await ReactTestRenderer.act(async () => renderer.unmount());
+});
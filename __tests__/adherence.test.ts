@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import type { Intake, Medication, Symptom } from '../src/services/api';
+import {
+  collectAdherenceDoses,
+  filterDoses,
+  getDailyAdherence,
+  getStreaks,
+  groupAdherence,
+  summarizeAdherence,
+} from '../src/utils/adherence';
+
+const NOW = new Date('2025-03-10T12:00:00');
+
+const intake = (id: number, medicationId: number, scheduled: string, actual: string | null): Intake => ({
+  id,
+  medicationId,
+  scheduledTime: new Date(scheduled).toISOString(),
+  actualTime: actual ? new Date(actual).toISOString() : null,
+  medication: '',
+});
+
+const buildMedication = (id: number, name: string, intakes: Intake[]): Medication => ({
+  id,
+  name,
+  intervalHours: 24,
+  totalDays: 5,
+  quantityMg: 400,
+  treatmentId: null,
+  formularyId: null,
+  stageId: 1,
+  stage: null,
+  intakes,
+});
+
+const buildSymptom = (medication: Medication[]): Symptom => ({
+  id: 1,
+  name: 'Migraine',
+  isActive: true,
+  stages: [{ id: 1, name: 'Mild', symptomId: 1, symptom: 'Migraine', medication }],
+});
+
+// Daily doses from the 7th: on time, 90 minutes late, skipped, then nothing logged since
+const ibuprofen = buildMedication(1, 'Ibuprofen', [
+  intake(1, 1, '2025-03-07T08:00:00', '2025-03-07T08:10:00'),
+  intake(2, 1, '2025-03-08T08:00:00', '2025-03-08T09:30:00'),
+  intake(3, 1, '2025-03-09T08:00:00', null),
+]);
+
+test('sorts due doses into on time, late and missed using the window', () => {
+  const doses = collectAdherenceDoses([buildSymptom([ibuprofen])], {}, NOW);
+
+  // The dose on the 10th has not reached the next slot yet, so only three are counted
+  expect(doses.map(dose => dose.delayMinutes)).toEqual([10, 90, null]);
+  expect(summarizeAdherence(doses, 30)).toEqual({
+    total: 3,
+    taken: 2,
+    onTime: 1,
+    late: 1,
+    early: 0,
+    missed: 1,
+    takenPercent: 67,
+    onTimePercent: 33,
+  });
+  expect(summarizeAdherence(doses, 120).onTime).toBe(2);
+});
+
+test('counts unlogged doses of a paused stage as neither taken nor missed', () => {
+  const symptom = { ...buildSymptom([ibuprofen]), isActive: false };
+  expect(collectAdherenceDoses([symptom], {}, new Date('2025-03-12T12:00:00'))).toHaveLength(3);
+  expect(collectAdherenceDoses([buildSymptom([ibuprofen])], {}, new Date('2025-03-12T12:00:00'))).toHaveLength(5);
+});
+
+test('filters by date and medication and reports streaks and daily totals', () => {
+  const paracetamol = buildMedication(2, 'Paracetamol', [
+    intake(4, 2, '2025-03-08T20:00:00', '2025-03-08T20:00:00'),
+    intake(5, 2, '2025-03-09T20:00:00', '2025-03-09T20:05:00'),
+  ]);
+  const doses = collectAdherenceDoses([buildSymptom([ibuprofen, paracetamol])], {}, NOW);
+
+  const recent = filterDoses(doses, { from: new Date('2025-03-08T00:00:00'), to: NOW, symptomId: null, medicationId: 2 });
+  expect(recent.map(dose => dose.medicationName)).toEqual(['Paracetamol', 'Paracetamol']);
+
+  expect(getStreaks(doses)).toEqual({ current: 0, longest: 2 });
+  expect(getStreaks(recent)).toEqual({ current: 2, longest: 2 });
+  expect(
+    getDailyAdherence(doses, new Date('2025-03-07T00:00:00'), NOW).map(day => [day.taken, day.total])
+  ).toEqual([
+    [1, 1],
+    [2, 2],
+    [1, 2],
+    [0, 0],
+  ]);
+  expect(groupAdherence(doses, 'medication', 30).map(group => group.name)).toEqual(['Ibuprofen', 'Paracetamol']);
+});
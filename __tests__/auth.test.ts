@@ -0,0 +1,86 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { SessionExpiredError } from '../src/services/errors';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+const backend = setUpFakeBackend({ requireAuth: true });
+const OTHER_SERVER = 'http://staging.example.com/api';
+
+// Every request the app sends, with the session it carried
+let sent: { method: string; url: string; authorization: string | null }[] = [];
+
+beforeAll(() => {
+  global.fetch = (input, init = {}) => {
+    sent.push({
+      method: init.method ?? 'GET',
+      url: `${input}`,
+      authorization: new Headers(init.headers).get('Authorization'),
+    });
+    return backend.fetch(input, init);
+  };
+});
+
+beforeEach(async () => {
+  await apiService.setBaseURL(apiService.getDefaultBaseURL());
+  await apiService.login('user@example.com', 'secret');
+  sent = [];
+});
+
+afterEach(async () => {
+  await apiService.logout();
+});
+
+test('refreshes an expired access token and retries the request', async () => {
+  backend.expireAccessTokens();
+
+  const symptoms = await apiService.getSymptoms({ forceRefresh: true });
+
+  expect(symptoms).toHaveLength(3);
+  expect(sent.map(request => `${request.method} ${request.url.replace(/^.*\/api/, '')}`)).toEqual([
+    'GET /symptoms',
+    'POST /auth/refresh',
+    'GET /symptoms',
+  ]);
+  expect(sent[2].authorization).not.toBe(sent[0].authorization);
+  expect(await apiService.isAuthenticated()).toBe(true);
+});
+
+test('signs out when the session cannot be refreshed', async () => {
+  const onAuthStateChange = jest.fn();
+  const unsubscribe = apiService.onAuthStateChange(onAuthStateChange);
+  backend.revokeSessions();
+
+  await expect(apiService.getSymptoms({ forceRefresh: true })).rejects.toBeInstanceOf(SessionExpiredError);
+
+  expect(await apiService.isAuthenticated()).toBe(false);
+  expect(onAuthStateChange).toHaveBeenCalledWith(false);
+  unsubscribe();
+});
+
+test('tests another server without sending it the session', async () => {
+  // The other server doesn't know this session and answers 401
+  expect(await apiService.healthCheck(OTHER_SERVER)).toBe(true);
+
+  expect(sent).toEqual([{ method: 'GET', url: `${OTHER_SERVER}/symptoms`, authorization: null }]);
+  expect(await apiService.isAuthenticated()).toBe(true);
+});
+
+test('tests the current server without touching the session', async () => {
+  backend.revokeSessions();
+
+  expect(await apiService.healthCheck()).toBe(true);
+
+  expect(sent).toEqual([{ method: 'GET', url: expect.stringMatching(/\/symptoms$/), authorization: null }]);
+  expect(await apiService.isAuthenticated()).toBe(true);
+});
+
+test('signs out when switching to another server', async () => {
+  await apiService.setBaseURL(OTHER_SERVER);
+
+  expect(await apiService.isAuthenticated()).toBe(false);
+  await expect(apiService.getSymptoms({ forceRefresh: true })).rejects.toThrow();
+  expect(sent.every(request => request.authorization === null)).toBe(true);
+});
@@ -0,0 +1,127 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import {
+  InvalidBackupError,
+  createBackup,
+  parseBackup,
+  planRestore,
+  restoreBackup,
+  serializeBackup,
+} from '../src/services/backup';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+const backend = setUpFakeBackend();
+
+test('reads back the backup it wrote', () => {
+  const symptoms = backend.getSymptoms();
+  const backup = parseBackup(serializeBackup(createBackup(symptoms, new Date('2025-03-01T12:00:00Z'))));
+
+  expect(backup.createdAt).toBe('2025-03-01T12:00:00.000Z');
+  expect(backup.symptoms).toEqual(symptoms);
+});
+
+test('rejects text that is not a backup this app can read', () => {
+  const backup = createBackup([]);
+
+  expect(() => parseBackup('not json')).toThrow(InvalidBackupError);
+  expect(() => parseBackup(JSON.stringify({ ...backup, format: 'trackyourmeds-report' }))).toThrow(
+    InvalidBackupError
+  );
+  expect(() => parseBackup(JSON.stringify({ ...backup, version: 2 }))).toThrow(/newer version/);
+  expect(() => parseBackup(JSON.stringify({ ...backup, symptoms: [{ id: 1, name: 'Migraine' }] }))).toThrow(
+    'symptoms[0].isActive'
+  );
+});
+
+test('previews and restores only symptoms missing by name, remapping ids', async () => {
+  const [migraine] = backend.getSymptoms();
+  const copy = { ...migraine, id: 900, name: ' migraine ' };
+  const asthma = {
+    ...migraine,
+    id: 901,
+    name: 'Asthma',
+    stages: migraine.stages.map(stage => ({ ...stage, id: stage.id + 1000 })),
+  };
+  const plan = planRestore(createBackup([copy, asthma]), backend.getSymptoms());
+
+  expect(plan.items.map(item => item.duplicateOf?.id ?? null)).toEqual([migraine.id, null]);
+  expect(plan.skipped).toBe(1);
+  const intakes = asthma.stages.flatMap(stage => stage.medication).flatMap(m => m.intakes);
+  expect(plan.toCreate).toEqual({
+    symptoms: 1,
+    stages: asthma.stages.length,
+    medications: asthma.stages.flatMap(stage => stage.medication).length,
+    intakes: intakes.length,
+  });
+
+  const result = await restoreBackup(plan);
+  expect(result.created).toEqual(plan.toCreate);
+
+  const restored = backend.getSymptoms().find(symptom => symptom.name === 'Asthma')!;
+  expect(result.symptomIds.get(901)).toBe(restored.id);
+  expect(restored.stages.map(stage => stage.name)).toEqual(asthma.stages.map(stage => stage.name));
+  expect(result.stageIds.get(asthma.stages[0].id)).toBe(restored.stages[0].id);
+
+  const original = asthma.stages[0].medication[0];
+  const medication = restored.stages[0].medication[0];
+  expect(result.medicationIds.get(original.id)).toBe(medication.id);
+  expect(medication.intakes.map(i => [i.medicationId, i.scheduledTime, i.actualTime])).toEqual(
+    original.intakes.map(i => [medication.id, i.scheduledTime, i.actualTime])
+  );
+  expect(backend.getSymptoms().filter(symptom => symptom.name.trim().toLowerCase() === 'migraine')).toHaveLength(1);
+});
+
+test('stops at a failed dose and reports the symptom left without the rest', async () => {
+  const [migraine] = backend.getSymptoms();
+  const medication = { ...migraine.stages[0].medication[0] };
+  medication.intakes = [medication.intakes[0], { ...medication.intakes[0], id: 9001 }, medication.intakes[0]];
+  const asthma = { ...migraine, id: 901, name: 'Asthma', stages: [{ ...migraine.stages[0], medication: [medication] }] };
+  const hayFever = { ...asthma, id: 902, name: 'Hay fever' };
+  const plan = planRestore(createBackup([asthma, hayFever]), backend.getSymptoms());
+  // The second dose fails; the others go through to the fake backend
+  const createIntake = apiService.createIntake.bind(apiService);
+  const failure = new Error('Server unavailable');
+  jest.spyOn(apiService, 'createIntake').mockImplementationOnce(createIntake).mockRejectedValueOnce(failure);
+
+  const result = await restoreBackup(plan);
+
+  expect(result.failure).toEqual({ symptomName: 'Asthma', symptomCreated: true, missingIntakes: 2, error: failure });
+  expect(result.created).toEqual({ symptoms: 1, stages: 1, medications: 1, intakes: 1 });
+  const restored = backend.getSymptoms().find(symptom => symptom.name === 'Asthma')!;
+  expect(restored.stages[0].medication[0].intakes).toHaveLength(1);
+  expect(backend.getSymptoms().some(symptom => symptom.name === 'Hay fever')).toBe(false);
+});
+
+test('fails a symptom the server created without one of its stages', async () => {
+  const [migraine] = backend.getSymptoms();
+  const [first, second] = migraine.stages;
+  const medication = first.medication[0];
+  const asthma = {
+    ...migraine,
+    id: 901,
+    name: 'Asthma',
+    stages: [
+      { ...first, medication: [medication] },
+      { ...second, medication: [{ ...medication, id: 9002, intakes: [medication.intakes[0]] }] },
+    ],
+  };
+  const plan = planRestore(createBackup([asthma]), backend.getSymptoms());
+  const createSymptom = apiService.createSymptom.bind(apiService);
+  jest.spyOn(apiService, 'createSymptom').mockImplementationOnce(async symptom => {
+    const created = await createSymptom(symptom);
+    return { ...created, stages: created.stages.slice(0, 1) };
+  });
+
+  const result = await restoreBackup(plan);
+
+  expect(result.failure).toEqual({
+    symptomName: 'Asthma',
+    symptomCreated: true,
+    missingIntakes: 1,
+    error: expect.objectContaining({ name: 'InvalidResponseError', path: 'stages[1]' }),
+  });
+  expect(result.created.intakes).toBe(medication.intakes.length);
+});
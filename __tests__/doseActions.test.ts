@@ -0,0 +1,50 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Medication } from '../src/services/api';
+import { clearSnoozes, getSnoozedUntil, restoreSnoozes, snoozeDose } from '../src/services/doseActions';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../src/services/storage';
+
+const medication: Medication = {
+  id: 7,
+  name: 'Ibuprofen',
+  intervalHours: 8,
+  totalDays: 3,
+  quantityMg: 400,
+  treatmentId: null,
+  formularyId: 'ibuprofen',
+  stageId: 1,
+  stage: null,
+  intakes: [],
+};
+
+const scheduledTime = new Date('2025-01-01T08:00:00Z');
+
+beforeEach(async () => {
+  await clearSnoozes();
+  await AsyncStorage.clear();
+});
+
+test('keeps snoozes from before a restart', async () => {
+  await saveJSON(STORAGE_KEYS.SNOOZES, {
+    [medication.id]: { scheduledTime: scheduledTime.toISOString(), until: '2025-01-01T08:15:00.000Z' },
+  });
+
+  await restoreSnoozes();
+
+  expect(getSnoozedUntil(medication.id, scheduledTime, new Date('2025-01-01T08:05:00Z'))).toEqual(
+    new Date('2025-01-01T08:15:00Z')
+  );
+  expect(getSnoozedUntil(medication.id, scheduledTime, new Date('2025-01-01T08:20:00Z'))).toBeNull();
+});
+
+test('saves a snooze as soon as it is set', async () => {
+  const until = snoozeDose(medication, scheduledTime, 10);
+  await new Promise(resolve => setImmediate(resolve));
+
+  expect(await loadJSON(STORAGE_KEYS.SNOOZES, {})).toEqual({
+    [medication.id]: { scheduledTime: scheduledTime.toISOString(), until: until.toISOString() },
+  });
+});
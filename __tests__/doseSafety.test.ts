@@ -0,0 +1,38 @@
+/**
+ * @format
+ */
+
+import { checkDailyDose, findDoseLimit, getDailyTotalMg, parseWholeNumber } from '../src/utils/doseSafety';
+
+test('parses only whole numbers', () => {
+  expect(parseWholeNumber(' 400 ')).toBe(400);
+  expect(parseWholeNumber('')).toBeNull();
+  expect(parseWholeNumber('8h')).toBeNull();
+  expect(parseWholeNumber('-5')).toBeNull();
+  expect(parseWholeNumber('2.5')).toBeNull();
+});
+
+test('calculates the daily total from the dosage and interval', () => {
+  expect(getDailyTotalMg(400, 8)).toBe(1200);
+  expect(getDailyTotalMg(500, 0)).toBeNull();
+  expect(getDailyTotalMg(0, 6)).toBeNull();
+});
+
+test('finds reference limits by generic or brand name', () => {
+  expect(findDoseLimit('ibuprofen tablets')?.name).toBe('Ibuprofen');
+  expect(findDoseLimit('Tylenol')?.name).toBe('Paracetamol');
+  expect(findDoseLimit('Ibuprofenx')).toBeNull();
+});
+
+test('does not grade a combination product against one of its ingredients', () => {
+  expect(findDoseLimit('Tylenol with Codeine')).toBeNull();
+  expect(findDoseLimit('Tylenol 3')).toBeNull();
+  expect(checkDailyDose({ name: 'Tylenol 3', quantityMg: 660, intervalHours: 4 }).status).toBe('unknown');
+});
+
+test('grades the daily total against the reference limits', () => {
+  expect(checkDailyDose({ name: 'Ibuprofen', quantityMg: 400, intervalHours: 8 }).status).toBe('ok');
+  expect(checkDailyDose({ name: 'Ibuprofen', quantityMg: 600, intervalHours: 6 }).status).toBe('aboveUsual');
+  expect(checkDailyDose({ name: 'Paracetamol', quantityMg: 1000, intervalHours: 4 }).status).toBe('aboveAbsolute');
+  expect(checkDailyDose({ name: 'Something new', quantityMg: 100, intervalHours: 4 }).status).toBe('unknown');
+});
@@ -0,0 +1,80 @@
+/**
+ * @format
+ */
+
+import type { Medication } from '../src/services/api';
+import { getDoseSchedule, getDoseTimeline, getTotalDoses } from '../src/utils/doseSchedule';
+
+const buildMedication = (overrides: Partial<Medication> = {}): Medication => ({
+  id: 1,
+  name: 'Ibuprofen',
+  intervalHours: 8,
+  totalDays: 2,
+  quantityMg: 400,
+  treatmentId: null,
+  formularyId: null,
+  stageId: 1,
+  stage: null,
+  intakes: [],
+  ...overrides,
+});
+
+const intakeAt = (id: number, scheduledTime: string) => ({
+  id,
+  medicationId: 1,
+  scheduledTime,
+  actualTime: scheduledTime,
+  medication: 'Ibuprofen',
+});
+
+test('counts the doses in a full course', () => {
+  expect(getTotalDoses(buildMedication())).toBe(6);
+  expect(getTotalDoses(buildMedication({ intervalHours: 0 }))).toBe(0);
+});
+
+test('first dose is due now when nothing has been logged', () => {
+  const now = new Date('2025-01-01T10:00:00Z');
+  const schedule = getDoseSchedule(buildMedication(), now);
+
+  expect(schedule.status).toBe('not-started');
+  expect(schedule.nextDose).toEqual(now);
+});
+
+test('next dose follows the last logged intake by the interval', () => {
+  const medication = buildMedication({
+    intakes: [intakeAt(2, '2025-01-01T16:00:00Z'), intakeAt(1, '2025-01-01T08:00:00Z')],
+  });
+
+  const upcoming = getDoseSchedule(medication, new Date('2025-01-01T20:00:00Z'));
+  expect(upcoming.status).toBe('upcoming');
+  expect(upcoming.nextDose?.toISOString()).toBe('2025-01-02T00:00:00.000Z');
+
+  const due = getDoseSchedule(medication, new Date('2025-01-02T01:00:00Z'));
+  expect(due.status).toBe('due');
+});
+
+test('course is completed once every dose is logged', () => {
+  const medication = buildMedication({
+    totalDays: 1,
+    intakes: [
+      intakeAt(1, '2025-01-01T08:00:00Z'),
+      intakeAt(2, '2025-01-01T16:00:00Z'),
+      intakeAt(3, '2025-01-02T00:00:00Z'),
+    ],
+  });
+
+  const schedule = getDoseSchedule(medication, new Date('2025-01-02T01:00:00Z'));
+  expect(schedule.status).toBe('completed');
+  expect(schedule.nextDose).toBeNull();
+});
+
+test('timeline marks overdue slots as missed and projects the rest', () => {
+  const medication = buildMedication({
+    totalDays: 1,
+    intakes: [intakeAt(1, '2025-01-01T08:00:00Z')],
+  });
+
+  const timeline = getDoseTimeline(medication, new Date('2025-01-02T01:00:00Z'));
+  expect(timeline.map(dose => dose.status)).toEqual(['taken', 'missed', 'scheduled']);
+  expect(getDoseTimeline(medication, new Date(), false)).toHaveLength(1);
+});
@@ -0,0 +1,43 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addEnvironment,
+  loadEnvironments,
+  normalizeServerURL,
+  removeEnvironment,
+} from '../src/services/environments';
+import { DEMO_BASE_URL } from '../src/services/fakeBackend';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('adds http to a server typed without a scheme and trims trailing slashes', () => {
+  expect(normalizeServerURL(' 192.168.1.20:5050/api ')).toBe('http://192.168.1.20:5050/api');
+  expect(normalizeServerURL('https://staging.example.com/api///')).toBe('https://staging.example.com/api');
+  expect(normalizeServerURL('HTTP://localhost:5050/')).toBe('HTTP://localhost:5050');
+});
+
+test('rejects text that is not a server URL', () => {
+  expect(normalizeServerURL('')).toBeNull();
+  expect(normalizeServerURL('   ')).toBeNull();
+  expect(normalizeServerURL('my server')).toBeNull();
+  expect(normalizeServerURL('http://')).toBeNull();
+  expect(normalizeServerURL('ftp://example.com')).toBeNull();
+});
+
+test('lists the built-in servers first and keeps saved ones until removed', async () => {
+  const staging = await addEnvironment(' Staging ', 'https://staging.example.com/api');
+
+  let environments = await loadEnvironments();
+  expect(environments.map(e => e.id)).toEqual(['default', 'demo', staging.id]);
+  expect(environments[1].url).toBe(DEMO_BASE_URL);
+  expect(environments[2]).toEqual({ id: staging.id, name: 'Staging', url: 'https://staging.example.com/api' });
+
+  await removeEnvironment(staging.id);
+  environments = await loadEnvironments();
+  expect(environments.map(e => e.id)).toEqual(['default', 'demo']);
+});
@@ -0,0 +1,83 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from '../src/services/api';
+import { STORAGE_KEYS, loadJSON } from '../src/services/storage';
+import { EpisodeStore, findOpenEpisode, getCurrentUpdate } from '../src/store/episodeStore';
+import { describeSeverity, formatEpisodeDuration } from '../src/utils/episodes';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+const mild = { id: 1, name: 'Mild' };
+const severe = { id: 2, name: 'Severe' };
+
+setUpFakeBackend();
+
+test('records an episode from start to end and keeps it on the device', async () => {
+  const store = new EpisodeStore();
+  const episode = await store.startEpisode(7, { stage: mild, severity: 3, time: new Date('2025-03-07T14:00:00') });
+  await store.recordUpdate(episode.id, {
+    stage: severe,
+    severity: 8,
+    notes: ' Light hurts ',
+    time: new Date('2025-03-07T18:00:00'),
+  });
+  await store.endEpisode(episode.id, new Date('2025-03-07T21:30:00'));
+
+  const reloaded = new EpisodeStore();
+  await reloaded.load();
+  const [saved] = reloaded.getState().episodes;
+  expect(saved.updates.map(u => [u.stageName, u.severity, u.notes])).toEqual([
+    ['Mild', 3, ''],
+    ['Severe', 8, 'Light hurts'],
+  ]);
+  expect(getCurrentUpdate(saved).stageId).toBe(2);
+  expect(findOpenEpisode(reloaded.getState().episodes, 7)).toBeUndefined();
+  expect(formatEpisodeDuration(saved)).toBe('7h 30m');
+  expect(describeSeverity(8)).toBe('8/10 Severe');
+});
+
+test('rejects a second ongoing episode and scores outside 0 to 10', async () => {
+  const store = new EpisodeStore();
+  await store.startEpisode(7, { stage: mild, severity: 2 });
+
+  await expect(store.startEpisode(7, { stage: mild, severity: 4 })).rejects.toThrow('already has an ongoing episode');
+  await expect(store.startEpisode(8, { stage: null, severity: 11 })).rejects.toThrow('Severity');
+  expect(store.getState().episodes).toHaveLength(1);
+});
+
+test('does not let an episode end before it started', async () => {
+  const store = new EpisodeStore();
+  const episode = await store.startEpisode(7, { stage: mild, severity: 5, time: new Date('2025-03-07T14:00:00') });
+
+  await expect(store.endEpisode(episode.id, new Date('2025-03-07T13:00:00'))).rejects.toThrow();
+  await expect(
+    store.recordUpdate(episode.id, { stage: severe, severity: 9, time: new Date('2025-03-07T12:00:00') })
+  ).rejects.toThrow();
+  expect(findOpenEpisode(store.getState().episodes, 7)?.updates).toHaveLength(1);
+});
+
+test('drops a save still waiting on the first read when the user signs out', async () => {
+  await apiService.login('user@example.com', 'secret');
+  const store = new EpisodeStore();
+  await store.startEpisode(7, { stage: mild, severity: 3 });
+  // Hold the next read of the episodes until after the sign-out
+  const getItem = AsyncStorage.getItem;
+  let finishRead!: () => void;
+  jest.spyOn(AsyncStorage, 'getItem').mockImplementationOnce(async key => {
+    await new Promise<void>(resolve => (finishRead = resolve));
+    return getItem(key);
+  });
+
+  const reloaded = new EpisodeStore();
+  const starting = reloaded.startEpisode(8, { stage: severe, severity: 6 });
+  await apiService.logout();
+  finishRead();
+  await starting;
+
+  expect(await loadJSON(STORAGE_KEYS.EPISODES, [])).toEqual([]);
+  expect(reloaded.getState().episodes).toEqual([]);
+  await reloaded.load();
+  expect(reloaded.getState()).toEqual({ episodes: [], loaded: true });
+});
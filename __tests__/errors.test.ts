@@ -0,0 +1,56 @@
+/**
+ * @format
+ */
+
+import {
+  HttpError,
+  NetworkError,
+  ValidationError,
+  createHttpError,
+  describeApiError,
+  parseFieldPath,
+} from '../src/services/errors';
+
+describe('createHttpError', () => {
+  it('builds a ValidationError from a problem details body', () => {
+    const body = JSON.stringify({
+      title: 'One or more validation errors occurred.',
+      errors: { 'Stages[0].Medication[1].QuantityMg': ['Must be greater than 0'] },
+    });
+    const error = createHttpError(400, body);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).fieldErrors).toEqual({
+      'Stages[0].Medication[1].QuantityMg': ['Must be greater than 0'],
+    });
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it('marks server errors as retryable and client errors as not', () => {
+    expect(createHttpError(503, 'Service Unavailable').isRetryable).toBe(true);
+    expect(createHttpError(404, 'Not Found').isRetryable).toBe(false);
+    expect(createHttpError(400, 'not json')).toBeInstanceOf(HttpError);
+  });
+});
+
+describe('parseFieldPath', () => {
+  it('extracts stage and medication indexes and a camelCase field', () => {
+    expect(parseFieldPath('Stages[2].Medication[0].IntervalHours')).toEqual({
+      stageIndex: 2,
+      medIndex: 0,
+      field: 'intervalHours',
+    });
+    expect(parseFieldPath('Name')).toEqual({ stageIndex: null, medIndex: null, field: 'name' });
+  });
+});
+
+describe('describeApiError', () => {
+  it('gives connection advice for network errors', () => {
+    expect(describeApiError(new NetworkError(), 'load your symptoms')).toContain('check your connection');
+  });
+
+  it('lists server validation messages', () => {
+    const error = new ValidationError(400, '', { Name: ['Name is required'] });
+    expect(describeApiError(error, 'create the symptom')).toContain('Name is required');
+  });
+});
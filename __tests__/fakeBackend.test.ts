@@ -0,0 +1,60 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { ValidationError } from '../src/services/errors';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+const backend = setUpFakeBackend();
+
+test('serves the seed data through ApiService', async () => {
+  const symptoms = await apiService.getSymptoms({ forceRefresh: true });
+
+  expect(symptoms.map(s => s.name)).toEqual(['Migraine', 'Sore Throat', 'Seasonal Allergies']);
+  expect(symptoms[0].stages[1].medication[0].intakes).toEqual([]);
+});
+
+test('keeps writes made through ApiService', async () => {
+  const [migraine] = await apiService.getSymptoms({ forceRefresh: true });
+  const sumatriptan = migraine.stages[1].medication[0];
+
+  const intake = await apiService.createIntake({
+    medicationId: sumatriptan.id,
+    scheduledTime: new Date().toISOString(),
+    actualTime: new Date().toISOString(),
+  });
+  await apiService.updateSymptom(migraine.id, { ...migraine, isActive: false });
+
+  const updated = await apiService.getSymptom(migraine.id);
+  expect(updated.isActive).toBe(false);
+  expect(updated.stages[1].medication[0].intakes.map(i => i.id)).toEqual([intake.id]);
+});
+
+test('rejects incomplete writes like the real server', async () => {
+  await expect(apiService.createSymptom({ name: '', isActive: true, stages: [] })).rejects.toBeInstanceOf(
+    ValidationError
+  );
+  expect(backend.getSymptoms()).toHaveLength(3);
+});
+
+test('keeps stage order and applies stage renames and deletes', async () => {
+  const created = await apiService.createSymptom({
+    name: 'Eczema',
+    isActive: true,
+    stages: ['Flare', 'Maintenance', 'Taper'].map(name => ({ name, medication: [] })),
+  });
+  expect(created.stages.map(stage => stage.name)).toEqual(['Flare', 'Maintenance', 'Taper']);
+
+  const [flare, maintenance] = created.stages;
+  await apiService.updateStage(maintenance.id, { ...maintenance, name: 'Remission' });
+  await apiService.deleteStage(flare.id);
+  const added = await apiService.createStage({ name: 'Relapse', symptomId: created.id, medication: [] });
+
+  const updated = await apiService.getSymptom(created.id);
+  expect(updated.stages.map(stage => [stage.id, stage.name])).toEqual([
+    [maintenance.id, 'Remission'],
+    [created.stages[2].id, 'Taper'],
+    [added.id, 'Relapse'],
+  ]);
+});
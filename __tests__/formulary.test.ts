@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import { FORMULARY } from '../src/data/formulary';
+import { findDoseLimit, getDailyTotalMg } from '../src/utils/doseSafety';
+import { matchFormulary, resolveMedicationName, searchFormulary } from '../src/utils/formulary';
+import { checkMedications, getIngredients } from '../src/utils/medicationChecks';
+
+test('suggests drugs by name first, then by brand', () => {
+  expect(searchFormulary('par').map(match => match.entry.id)).toEqual(['paracetamol', 'co-codamol', 'nuromol']);
+  expect(searchFormulary('advil')).toEqual([expect.objectContaining({ matchedName: 'Advil' })]);
+  expect(searchFormulary('  ')).toEqual([]);
+});
+
+test('links typed names to the canonical drug', () => {
+  expect(matchFormulary('ibuprofen 400')?.id).toBe('ibuprofen');
+  expect(matchFormulary('Nurofen')?.id).toBe('ibuprofen');
+  expect(matchFormulary('Vitamin D')).toBeNull();
+  expect(resolveMedicationName('My headache pills', 'paracetamol')).toBe('Paracetamol');
+});
+
+test('prefers the combination product over the ingredient its name starts with', () => {
+  expect(matchFormulary('Tylenol 3')?.id).toBe('tylenol-codeine');
+  expect(matchFormulary('Tylenol with Codeine 30mg')?.id).toBe('tylenol-codeine');
+  expect(matchFormulary('Paracetamol and codeine')?.id).toBe('co-codamol');
+  expect(matchFormulary('Ibuprofen and paracetamol')?.id).toBe('nuromol');
+  expect(matchFormulary('Tylenol extra')?.id).toBe('paracetamol');
+});
+
+test('matches medications by formulary id whatever they are called', () => {
+  const medication = (name: string, symptomKey: string) => ({
+    name,
+    quantityMg: 200,
+    intervalHours: 8,
+    symptomKey,
+    stageKey: symptomKey,
+    symptomName: symptomKey,
+    stageName: 'Early',
+    formularyId: 'ibuprofen',
+  });
+
+  expect(checkMedications([medication('Pain relief', 'back'), medication('Advil', 'knee')])).toEqual([
+    expect.objectContaining({ kind: 'duplicate', title: 'Ibuprofen in more than one medication' }),
+  ]);
+});
+
+test('suggests defaults that stay within the usual daily maximum of every ingredient', () => {
+  const overLimit = FORMULARY.flatMap(entry => {
+    const dailyTotalMg = getDailyTotalMg(entry.strengthsMg[0], entry.defaultIntervalHours)!;
+    return getIngredients(entry.name, dailyTotalMg)
+      .filter(ingredient => ingredient.mg > (findDoseLimit(ingredient.name)?.usualMaxMg ?? Infinity))
+      .map(ingredient => `${entry.id}: ${ingredient.name} ${ingredient.mg}mg`);
+  });
+
+  expect(overLimit).toEqual([]);
+});
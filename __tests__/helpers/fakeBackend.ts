@@ -0,0 +1,28 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FakeBackend, type FakeBackendOptions } from '../../src/services/fakeBackend';
+
+// Serve fetch from a fake backend for the whole file, restoring the real fetch afterwards.
+// Each test starts with the seed data and empty storage.
+export function setUpFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const backend = new FakeBackend(options);
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    global.fetch = backend.fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(async () => {
+    backend.reset();
+    await AsyncStorage.clear();
+  });
+
+  return backend;
+}
@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import {
+  clearLogEntries,
+  configureLogger,
+  createLogger,
+  exportLogs,
+  getLogEntries,
+  redact,
+} from '../src/services/logger';
+import { HttpError, InvalidResponseError, ValidationError } from '../src/services/errors';
+
+const log = createLogger('Test');
+
+beforeEach(() => {
+  clearLogEntries();
+  configureLogger({ level: 'debug', redact: true });
+});
+
+test('redacts health data but keeps ids and list sizes', () => {
+  const symptom = {
+    id: 7,
+    name: 'Migraine',
+    stages: [{ id: 3, medication: [{ id: 9, name: 'Ibuprofen', quantityMg: 400, intakes: [{ id: 1 }, { id: 2 }] }] }],
+  };
+
+  expect(redact(symptom)).toEqual({
+    id: 7,
+    name: '[redacted]',
+    stages: [{ id: 3, medication: [{ id: 9, name: '[redacted]', quantityMg: '[redacted]', intakes: [{ id: 1 }, { id: 2 }] }] }],
+  });
+  expect(redact(new HttpError(500, 'Ibuprofen failed'))).toEqual({ name: 'HttpError', status: 500 });
+});
+
+test('keeps response bodies and rejected values out of logged errors', () => {
+  const body = JSON.stringify({ errors: { Name: ['Migraine already exists'] } });
+  log.error('Save failed', new ValidationError(400, body, { Name: ['Migraine already exists'] }));
+  log.error('Load failed', new InvalidResponseError('symptoms[0].isActive', 'expected true or false but got string "Migraine"'));
+
+  expect(getLogEntries().map(entry => entry.data)).toEqual([
+    '{"name":"ValidationError","status":400}',
+    '{"name":"InvalidResponseError","path":"symptoms[0].isActive"}',
+  ]);
+  expect(exportLogs()).not.toContain('Migraine');
+});
+
+test('drops entries below the configured level', () => {
+  configureLogger({ level: 'warn' });
+  log.debug('debug');
+  log.info('info');
+  log.warn('warn');
+  log.error('error', { email: 'someone@example.com' });
+
+  expect(getLogEntries().map(entry => entry.message)).toEqual(['warn', 'error']);
+  expect(exportLogs()).toContain('ERROR [Test] error {"email":"[redacted]"}');
+});
+
+test('keeps only the most recent entries', () => {
+  for (let i = 0; i < 600; i++) {
+    log.info(`entry ${i}`);
+  }
+
+  const entries = getLogEntries();
+  expect(entries).toHaveLength(500);
+  expect(entries[0].message).toBe('entry 100');
+});
@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import {
+  checkMedications,
+  checkNewMedications,
+  getIngredients,
+  type MedicationEntry,
+} from '../src/utils/medicationChecks';
+
+const entry = (
+  name: string,
+  quantityMg: number,
+  intervalHours: number,
+  symptomKey: string,
+  stageKey: string = `${symptomKey}-stage`
+): MedicationEntry => ({
+  name,
+  quantityMg,
+  intervalHours,
+  symptomKey,
+  stageKey,
+  symptomName: `Symptom ${symptomKey}`,
+  stageName: `Stage ${stageKey}`,
+});
+
+test('splits combination products into their ingredients', () => {
+  expect(getIngredients('Co-codamol', 1016)).toEqual([
+    { name: 'Paracetamol', mg: 1000 },
+    { name: 'Codeine', mg: 16 },
+  ]);
+  expect(getIngredients('Tylenol', 500)).toEqual([{ name: 'Paracetamol', mg: 500 }]);
+  expect(getIngredients('Tylenol 3', 660)).toEqual([
+    { name: 'Paracetamol', mg: 600 },
+    { name: 'Codeine', mg: 60 },
+  ]);
+});
+
+test('flags the same ingredient across symptoms and adds up the daily total', () => {
+  const warnings = checkMedications([entry('Paracetamol', 1000, 6, 'headache'), entry('Co-codamol', 1016, 6, 'fever')]);
+
+  expect(warnings.map(w => w.kind)).toEqual(['dailyTotal', 'duplicate']);
+  expect(warnings[0].severity).toBe('danger');
+  expect(warnings[0].message).toContain('8000mg');
+});
+
+test('ignores stages of one symptom that replace each other', () => {
+  expect(
+    checkMedications([entry('Ibuprofen', 400, 8, 'migraine', 'early'), entry('Aspirin', 300, 6, 'migraine', 'severe')])
+  ).toEqual([]);
+  expect(
+    checkMedications([entry('Ibuprofen', 400, 8, 'migraine', 'early'), entry('Aspirin', 300, 6, 'migraine', 'early')])
+  ).toHaveLength(1);
+});
+
+test('reports known interactions and same-class combinations for new medications only', () => {
+  const existing = [entry('Ibuprofen', 400, 8, 'headache'), entry('Naproxen', 220, 12, 'back')];
+  const warnings = checkNewMedications(existing, [entry('Aspirin', 300, 6, 'new')]);
+
+  expect(warnings.map(w => w.title)).toEqual(['Aspirin and Ibuprofen', 'Aspirin and Naproxen']);
+  expect(warnings[0].severity).toBe('danger');
+  expect(warnings.every(w => w.medications.some(m => m.isNew))).toBe(true);
+});
@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MutationQueue, nextTempId, type QueuedMutation } from '../src/services/offlineQueue';
+
+const networkError = new Error('offline');
+const isRetryable = (error: unknown) => error === networkError;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('replays queued mutations in order and maps temporary ids', async () => {
+  const queue = new MutationQueue();
+  const tempId = nextTempId();
+
+  await queue.enqueue({
+    method: 'POST',
+    endpoint: '/intakes',
+    body: { medicationId: 3 },
+    optimistic: { id: tempId, medicationId: 3 },
+  });
+  await queue.enqueue({ method: 'PUT', endpoint: `/intakes/${tempId}`, body: { id: tempId, actualTime: null } });
+
+  const sent: QueuedMutation[] = [];
+  const result = await queue.replay(async mutation => {
+    sent.push(mutation);
+    return mutation.method === 'POST' ? { id: 42, medicationId: 3 } : {};
+  }, isRetryable);
+
+  expect(result).toEqual({ replayed: 2, dropped: 0, orphaned: 0, remaining: 0 });
+  expect(sent.map(m => m.endpoint)).toEqual(['/intakes', '/intakes/42']);
+  expect(sent[1].body.id).toBe(42);
+});
+
+test('stops at a network failure and keeps the rest queued across restarts', async () => {
+  const queue = new MutationQueue();
+  await queue.enqueue({ method: 'PUT', endpoint: '/symptoms/1', body: { isActive: false } });
+  await queue.enqueue({ method: 'DELETE', endpoint: '/intakes/5' });
+
+  const result = await queue.replay(async () => {
+    throw networkError;
+  }, isRetryable);
+  expect(result.remaining).toBe(2);
+
+  // A fresh queue reads the same mutations back from storage
+  expect(await new MutationQueue().size()).toBe(2);
+});
+
+test('drops mutations the server rejects', async () => {
+  const queue = new MutationQueue();
+  await queue.enqueue({ method: 'DELETE', endpoint: '/intakes/5' });
+
+  const result = await queue.replay(async () => {
+    throw new Error('HTTP 404: Not Found');
+  }, isRetryable);
+
+  expect(result).toEqual({ replayed: 0, dropped: 1, orphaned: 0, remaining: 0 });
+});
+
+test('drops the changes that depend on a rejected create without sending them', async () => {
+  const queue = new MutationQueue();
+  const symptomId = nextTempId();
+  const medicationId = nextTempId();
+  await queue.enqueue({
+    method: 'POST',
+    endpoint: '/symptoms',
+    body: { name: 'Migraine' },
+    optimistic: { id: symptomId, stages: [{ id: nextTempId(), medication: [{ id: medicationId }] }] },
+  });
+  await queue.enqueue({ method: 'POST', endpoint: '/intakes', body: { medicationId }, optimistic: { id: nextTempId() } });
+  await queue.enqueue({ method: 'PUT', endpoint: `/symptoms/${symptomId}`, body: { name: 'Migraines' } });
+  await queue.enqueue({ method: 'DELETE', endpoint: '/intakes/5' });
+
+  const sent: string[] = [];
+  const result = await queue.replay(async mutation => {
+    sent.push(`${mutation.method} ${mutation.endpoint}`);
+    if (mutation.endpoint === '/symptoms') {
+      throw new Error('HTTP 400: Bad Request');
+    }
+    return {};
+  }, isRetryable);
+
+  expect(sent).toEqual(['POST /symptoms', 'DELETE /intakes/5']);
+  expect(result).toEqual({ replayed: 1, dropped: 3, orphaned: 2, remaining: 0 });
+});
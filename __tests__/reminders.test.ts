@@ -0,0 +1,102 @@
+/**
+ * @format
+ */
+
+import type { Symptom } from '../src/services/api';
+import {
+  buildReminders,
+  ReminderScheduler,
+  type NotificationAdapter,
+  type Reminder,
+} from '../src/services/reminders';
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+
+const buildSymptom = (isActive: boolean): Symptom => ({
+  id: 1,
+  name: 'Headache',
+  isActive,
+  stages: [
+    {
+      id: 1,
+      name: 'Mild',
+      symptomId: 1,
+      symptom: 'Headache',
+      medication: [
+        {
+          id: 7,
+          name: 'Ibuprofen',
+          intervalHours: 8,
+          totalDays: 1,
+          quantityMg: 400,
+          treatmentId: null,
+          formularyId: null,
+          stageId: 1,
+          stage: null,
+          intakes: [
+            {
+              id: 1,
+              medicationId: 7,
+              scheduledTime: '2025-01-01T08:00:00Z',
+              actualTime: '2025-01-01T08:05:00Z',
+              medication: 'Ibuprofen',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+class FakeAdapter implements NotificationAdapter {
+  scheduled: Reminder[] = [];
+  cancelled: string[] = [];
+
+  async schedule(reminder: Reminder) {
+    this.scheduled.push(reminder);
+  }
+
+  async cancel(reminderId: string) {
+    this.cancelled.push(reminderId);
+  }
+}
+
+test('builds reminders for the remaining doses of active symptoms', () => {
+  const reminders = buildReminders([buildSymptom(true)], NOW);
+
+  expect(reminders.map(r => r.fireAt.toISOString())).toEqual([
+    '2025-01-01T16:00:00.000Z',
+    '2025-01-02T00:00:00.000Z',
+  ]);
+  expect(reminders[0].title).toBe('Time for Ibuprofen');
+});
+
+test('skips inactive symptoms and doses beyond the horizon', () => {
+  expect(buildReminders([buildSymptom(false)], NOW)).toHaveLength(0);
+  expect(buildReminders([buildSymptom(true)], NOW, { horizonHours: 6 })).toHaveLength(1);
+});
+
+test('reminds about a snoozed dose when the snooze ends', () => {
+  const snoozeEnd = new Date('2025-01-01T17:15:00Z');
+  const reminders = buildReminders([buildSymptom(true)], new Date('2025-01-01T17:00:00Z'), {
+    snoozedUntil: () => snoozeEnd,
+  });
+
+  expect(reminders[0].fireAt).toEqual(snoozeEnd);
+});
+
+test('scheduler cancels reminders when a symptom is deactivated', async () => {
+  const adapter = new FakeAdapter();
+  const scheduler = new ReminderScheduler(adapter);
+
+  await scheduler.reschedule([buildSymptom(true)], NOW);
+  expect(adapter.scheduled).toHaveLength(2);
+
+  // Rescheduling the same tree leaves existing reminders alone
+  await scheduler.reschedule([buildSymptom(true)], NOW);
+  expect(adapter.scheduled).toHaveLength(2);
+
+  await scheduler.reschedule([buildSymptom(false)], NOW);
+  expect(adapter.cancelled).toHaveLength(2);
+  expect(scheduler.getScheduledReminders()).toHaveLength(0);
+});
@@ -0,0 +1,117 @@
+/**
+ * @format
+ */
+
+import type { Symptom } from '../src/services/api';
+import type { Episode } from '../src/store/episodeStore';
+import { buildReport, toCSV, toHTML, toJSON } from '../src/utils/report';
+
+const symptom: Symptom = {
+  id: 1,
+  name: 'Migraine, "aura"',
+  isActive: true,
+  stages: [
+    {
+      id: 1,
+      name: 'Mild',
+      symptomId: 1,
+      symptom: 'Migraine',
+      medication: [
+        {
+          id: 1,
+          name: 'Ibuprofen <Advil>',
+          intervalHours: 8,
+          totalDays: 3,
+          quantityMg: 400,
+          treatmentId: null,
+          formularyId: 'ibuprofen',
+          stageId: 1,
+          stage: null,
+          intakes: [
+            {
+              id: 1,
+              medicationId: 1,
+              scheduledTime: '2025-02-01T08:00:00.000Z',
+              actualTime: '2025-02-01T08:00:00.000Z',
+              medication: 'Ibuprofen',
+            },
+            {
+              id: 2,
+              medicationId: 1,
+              scheduledTime: '2025-03-01T16:00:00.000Z',
+              actualTime: '2025-03-01T16:45:00.000Z',
+              medication: 'Ibuprofen',
+            },
+            {
+              id: 3,
+              medicationId: 1,
+              scheduledTime: '2025-03-02T00:00:00.000Z',
+              actualTime: null,
+              medication: 'Ibuprofen',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const episode: Episode = {
+  id: 'e1',
+  symptomId: 1,
+  startedAt: '2025-03-01T14:00:00.000Z',
+  endedAt: '2025-03-01T20:00:00.000Z',
+  updates: [{ time: '2025-03-01T14:00:00.000Z', stageId: 1, stageName: 'Mild', severity: 4, notes: '' }],
+};
+
+const range = { from: new Date('2025-02-15T00:00:00.000Z'), to: new Date('2025-03-05T00:00:00.000Z') };
+
+test('writes one CSV row per intake in the range, quoting where needed', () => {
+  const csv = toCSV(buildReport([symptom], {}, [episode], range));
+
+  expect(csv.split('\r\n')).toEqual([
+    'symptom,stage,medication,dose_mg,interval_hours,scheduled_time,actual_time,status,delay_minutes',
+    '"Migraine, ""aura""",Mild,Ibuprofen <Advil>,400,8,2025-03-01T16:00:00.000Z,2025-03-01T16:45:00.000Z,taken,45',
+    '"Migraine, ""aura""",Mild,Ibuprofen <Advil>,400,8,2025-03-02T00:00:00.000Z,,skipped,',
+  ]);
+});
+
+test('keeps names that look like spreadsheet formulas as text', () => {
+  const [stage] = symptom.stages;
+  const [medication] = stage.medication;
+  const early = { ...medication.intakes[1], actualTime: '2025-03-01T15:30:00.000Z' };
+  const formulas: Symptom = {
+    ...symptom,
+    name: '=HYPERLINK("http://example.com","Migraine")',
+    stages: [{ ...stage, name: '+Mild', medication: [{ ...medication, name: '@Ibuprofen', intakes: [early] }] }],
+  };
+
+  // The negative delay is a number, so it stays one
+  expect(toCSV(buildReport([formulas], {}, [], range)).split('\r\n')[1]).toBe(
+    `"'=HYPERLINK(""http://example.com"",""Migraine"")",'+Mild,'@Ibuprofen,400,8,` +
+      '2025-03-01T16:00:00.000Z,2025-03-01T15:30:00.000Z,taken,-30'
+  );
+
+  // A leading tab or carriage return starts a formula too; the line break also needs quotes
+  const whitespace: Symptom = { ...formulas, name: '\tMigraine', stages: [{ ...formulas.stages[0], name: '\rMild' }] };
+  expect(toCSV(buildReport([whitespace], {}, [], range))).toContain(`\r\n'\tMigraine,"'\rMild",'@Ibuprofen,`);
+});
+
+test('keeps the whole tree and episodes in the JSON export', () => {
+  const json = JSON.parse(toJSON(buildReport([symptom], { 1: 1 }, [episode], { from: null, to: range.to })));
+
+  expect(json.version).toBe(1);
+  expect(json.range.from).toBeNull();
+  expect(json.symptoms[0].currentStageId).toBe(1);
+  expect(json.symptoms[0].stages[0].medication[0].intakes).toHaveLength(3);
+  expect(json.episodes.map((e: Episode) => e.id)).toEqual(['e1']);
+});
+
+test('escapes names in the printable summary', () => {
+  const html = toHTML(buildReport([symptom], {}, [episode], range));
+
+  expect(html).toContain('Ibuprofen &lt;Advil&gt;');
+  expect(html).not.toContain('<Advil>');
+  expect(html).toContain('Mild (current)');
+  expect(html).toContain('4/10 Moderate');
+});
@@ -0,0 +1,98 @@
+/**
+ * @format
+ */
+
+import { RequestCache } from '../src/services/requestCache';
+import { RequestCancelledError } from '../src/services/errors';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+test('merges identical in-flight requests', async () => {
+  const cache = new RequestCache();
+  const response = deferred<string[]>();
+  const fetcher = jest.fn(() => response.promise);
+
+  const first = cache.get('symptoms', fetcher, { maxAge: 1000 });
+  const second = cache.get('symptoms', fetcher, { maxAge: 1000 });
+  response.resolve(['Headache']);
+
+  expect(await first).toEqual(['Headache']);
+  expect(await second).toEqual(['Headache']);
+  expect(fetcher).toHaveBeenCalledTimes(1);
+});
+
+test('returns stale data at once and refreshes it in the background', async () => {
+  const cache = new RequestCache();
+  const listener = jest.fn();
+  cache.subscribe('symptoms', listener);
+  await cache.get('symptoms', async () => ['old'], { maxAge: 1000 });
+
+  const stale = await cache.get('symptoms', async () => ['new'], { maxAge: -1 });
+  expect(stale).toEqual(['old']);
+
+  await new Promise<void>(resolve => setImmediate(() => resolve()));
+  expect(cache.peek('symptoms')).toEqual(['new']);
+  expect(listener).toHaveBeenLastCalledWith(['new']);
+});
+
+test('invalidation discards entries and results still in flight', async () => {
+  const cache = new RequestCache();
+  const response = deferred<string[]>();
+  await cache.get('symptom:1', async () => ['cached'], { maxAge: 1000 });
+
+  const pending = cache.get('symptoms', () => response.promise, { maxAge: 1000 });
+  cache.invalidate(key => key === 'symptoms' || key === 'symptom:1');
+  response.resolve(['before write']);
+  await pending;
+
+  expect(cache.peek('symptoms')).toBeUndefined();
+  expect(cache.peek('symptom:1')).toBeUndefined();
+});
+
+test('an aborted caller stops waiting without cancelling the shared request', async () => {
+  const cache = new RequestCache();
+  const response = deferred<string[]>();
+  const controller = new AbortController();
+
+  const abandoned = cache.get('symptoms', () => response.promise, { maxAge: 1000, signal: controller.signal });
+  const other = cache.get('symptoms', () => response.promise, { maxAge: 1000 });
+  controller.abort();
+  response.resolve(['Headache']);
+
+  await expect(abandoned).rejects.toBeInstanceOf(RequestCancelledError);
+  expect(await other).toEqual(['Headache']);
+});
+
+test('cancels the shared request once every caller has aborted', async () => {
+  const cache = new RequestCache();
+  const first = new AbortController();
+  const second = new AbortController();
+  let requestSignal!: AbortSignal;
+  const fetcher = (signal: AbortSignal) => {
+    requestSignal = signal;
+    return new Promise<string[]>((_resolve, reject) =>
+      signal.addEventListener('abort', () => reject(new RequestCancelledError()))
+    );
+  };
+
+  const one = cache.get('symptoms', fetcher, { maxAge: 1000, signal: first.signal });
+  const two = cache.get('symptoms', fetcher, { maxAge: 1000, signal: second.signal });
+
+  first.abort();
+  await expect(one).rejects.toBeInstanceOf(RequestCancelledError);
+  expect(requestSignal.aborted).toBe(false);
+
+  second.abort();
+  await expect(two).rejects.toBeInstanceOf(RequestCancelledError);
+  expect(requestSignal.aborted).toBe(true);
+
+  // The next caller starts a new request instead of joining the cancelled one
+  const next = cache.get('symptoms', async () => ['Headache'], { maxAge: 1000 });
+  expect(await next).toEqual(['Headache']);
+});
@@ -0,0 +1,29 @@
+/**
+ * @format
+ */
+
+import { canRetryRequest, getRetryDelay, parseRetryAfter } from '../src/services/retryPolicy';
+
+test('only retries POST when it carries an idempotency key', () => {
+  expect(canRetryRequest('GET')).toBe(true);
+  expect(canRetryRequest('PUT')).toBe(true);
+  expect(canRetryRequest('DELETE')).toBe(true);
+  expect(canRetryRequest('POST')).toBe(false);
+  expect(canRetryRequest('POST', { 'Idempotency-Key': 'abc' })).toBe(true);
+});
+
+test('backs off exponentially with jitter', () => {
+  expect(getRetryDelay(0, null, () => 1)).toBe(500);
+  expect(getRetryDelay(2, null, () => 1)).toBe(2000);
+  expect(getRetryDelay(2, null, () => 0.5)).toBe(1000);
+  expect(getRetryDelay(10, null, () => 1)).toBe(10000);
+});
+
+test('honours Retry-After in seconds or as a date', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+  expect(parseRetryAfter('3', now)).toBe(3000);
+  expect(parseRetryAfter('Wed, 01 May 2024 12:00:05 GMT', now)).toBe(5000);
+  expect(parseRetryAfter('soon', now)).toBeNull();
+  expect(getRetryDelay(0, '2', () => 1)).toBe(2000);
+  expect(getRetryDelay(0, '3600', () => 1)).toBe(30000);
+});
@@ -0,0 +1,46 @@
+/**
+ * @format
+ */
+
+import { InvalidResponseError } from '../src/services/errors';
+import { parseSymptoms } from '../src/services/schema';
+
+const serverMedication = {
+  id: 100,
+  name: 'Ibuprofen',
+  intervalHours: 8,
+  totalDays: 3,
+  quantityMg: 400,
+  stageId: 10,
+  stage: null,
+  intakes: null,
+};
+
+const earlyStage = { id: 10, name: 'Early', symptomId: 1, symptom: null, medication: [serverMedication] };
+
+const serverSymptom = {
+  id: 1,
+  name: 'Headache',
+  isActive: true,
+  stages: [earlyStage, { id: 11, name: 'Severe', symptomId: 1, symptom: 'Headache', medication: null }],
+};
+
+test('turns missing and null lists into empty lists', () => {
+  const [symptom] = parseSymptoms([serverSymptom]);
+
+  expect(symptom.stages[0].medication[0].intakes).toEqual([]);
+  expect(symptom.stages[0].medication[0].treatmentId).toBeNull();
+  expect(symptom.stages[0].symptom).toBe('');
+  expect(symptom.stages[1].medication).toEqual([]);
+});
+
+test('reports where a malformed payload went wrong', () => {
+  const broken = {
+    ...serverSymptom,
+    stages: [{ ...earlyStage, medication: [{ ...serverMedication, intervalHours: '8' }] }],
+  };
+
+  expect(() => parseSymptoms([broken])).toThrow(InvalidResponseError);
+  expect(() => parseSymptoms([broken])).toThrow('symptoms[0].stages[0].medication[0].intervalHours');
+  expect(() => parseSymptoms({})).toThrow('expected a list');
+});
@@ -0,0 +1,24 @@
+/**
+ * @format
+ */
+
+import { reorderStages, validateStageName } from '../src/utils/stages';
+
+const stages = [{ name: 'Flare' }, { name: 'Maintenance' }, { name: 'Taper' }];
+
+test('checks new and renamed stage names for blanks and duplicates', () => {
+  expect(validateStageName(stages, 'Remission')).toBeNull();
+  expect(validateStageName(stages, '  ')).toBe('Please enter a stage name');
+  expect(validateStageName(stages, ' flare ')).toBe('A stage called "flare" already exists');
+
+  // Renaming a stage may keep its own name, just not take another's
+  expect(validateStageName(stages, 'FLARE', 0)).toBeNull();
+  expect(validateStageName(stages, 'Taper', 0)).toBe('A stage called "Taper" already exists');
+});
+
+test('moves a stage one place up or down, and not past either end', () => {
+  expect(reorderStages(stages, 0, 1).map(s => s.name)).toEqual(['Maintenance', 'Flare', 'Taper']);
+  expect(reorderStages(stages, 2, -1).map(s => s.name)).toEqual(['Flare', 'Taper', 'Maintenance']);
+  expect(reorderStages(stages, 0, -1)).toBe(stages);
+  expect(reorderStages(stages, 2, 1)).toBe(stages);
+});
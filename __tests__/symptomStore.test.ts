@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/services/api';
+import { HttpError } from '../src/services/errors';
+import { SymptomStore, symptomReducer } from '../src/store/symptomStore';
+import { setUpFakeBackend } from './helpers/fakeBackend';
+
+setUpFakeBackend();
+
+test('shows a change before the server confirms it', async () => {
+  const store = new SymptomStore();
+  await store.load({ forceRefresh: true });
+  const [migraine] = store.getState().symptoms;
+
+  const saving = store.updateSymptom(migraine, { isActive: false });
+  expect(store.getState().symptoms[0].isActive).toBe(false);
+
+  await saving;
+  await store.load();
+  expect(store.getState().symptoms[0].isActive).toBe(false);
+  expect(store.getState().pending).toEqual([]);
+});
+
+test('rolls a change back when the server rejects it', async () => {
+  const store = new SymptomStore();
+  await store.load({ forceRefresh: true });
+  const [migraine] = store.getState().symptoms;
+
+  jest.spyOn(apiService, 'updateSymptom').mockRejectedValueOnce(new HttpError(500, 'Server error'));
+
+  await expect(store.updateSymptom(migraine, { isActive: false })).rejects.toBeInstanceOf(HttpError);
+  expect(store.getState().symptoms[0].isActive).toBe(true);
+  expect(store.getState().pending).toEqual([]);
+});
+
+test('keeps unconfirmed changes on top of newly loaded data', () => {
+  const store = new SymptomStore();
+  const symptom = { id: 1, name: 'Migraine', isActive: true, stages: [] };
+  const changed = symptomReducer(store.getState(), {
+    type: 'changeStarted',
+    id: 1,
+    change: { type: 'updateSymptom', symptomId: 1, changes: { isActive: false } },
+  });
+
+  const reloaded = symptomReducer(changed, {
+    type: 'loaded',
+    symptoms: [symptom],
+    version: 0,
+    isOffline: false,
+    pendingChanges: 0,
+  });
+
+  expect(reloaded.confirmed[0].isActive).toBe(true);
+  expect(reloaded.symptoms[0].isActive).toBe(false);
+});
+
+test('only schedules the medications of the current stage and remembers it', async () => {
+  const store = new SymptomStore();
+  await store.load({ forceRefresh: true });
+  const [migraine] = store.getState().symptoms;
+  const [mild, severe] = migraine.stages;
+  expect(store.getState().regimen[0].stages).toEqual([mild]);
+
+  await store.setCurrentStage(migraine.id, severe.id);
+  expect(store.getState().regimen[0].stages).toEqual([severe]);
+
+  const restarted = new SymptomStore();
+  await restarted.load();
+  expect(restarted.getState().regimen[0].stages.map(stage => stage.id)).toEqual([severe.id]);
+});
@@ -1,3 +1,10 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['./jest.setup.js', './node_modules/react-native-gesture-handler/jestSetup.js'],
+  // Shared setup for the tests, not tests themselves
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
+  // Navigation, gesture and icon packages ship untranspiled ES modules
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native[^/]*|@react-native(-community)?|@react-navigation|@react-native-vector-icons)/)',
+  ],
 };
@@ -0,0 +1,23 @@
+/* eslint-env jest */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('react-native-keychain', () => {
+  let credentials = false;
+  return {
+    ACCESSIBLE: { WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'AccessibleWhenUnlockedThisDeviceOnly' },
+    getGenericPassword: jest.fn(async () => credentials),
+    setGenericPassword: jest.fn(async (username, password) => {
+      credentials = { username, password };
+      return { service: 'mock', storage: 'mock' };
+    }),
+    resetGenericPassword: jest.fn(async () => {
+      credentials = false;
+      return true;
+    }),
+  };
+});
+
+// Keep log lines out of the test output; tests read them from the log buffer instead
+require('./src/services/logger').configureLogger({ console: false });
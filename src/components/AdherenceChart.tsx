@@ -0,0 +1,92 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { DayAdherence } from '../utils/adherence';
+
+interface AdherenceChartProps {
+  days: DayAdherence[]; // oldest first
+}
+
+const CHART_HEIGHT = 80;
+
+// One bar per day: its height is the share of that day's doses that were taken
+export default function AdherenceChart({ days }: AdherenceChartProps) {
+  if (days.length === 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        {days.map(day => {
+          const share = day.total > 0 ? day.taken / day.total : 0;
+          return (
+            <View key={day.date.toISOString()} style={styles.column}>
+              {day.total === 0 ? (
+                <View style={styles.emptyBar} />
+              ) : (
+                <View
+                  style={[
+                    styles.bar,
+                    { height: Math.max(2, share * CHART_HEIGHT) },
+                    share === 1 ? styles.barComplete : share === 0 ? styles.barMissed : styles.barPartial,
+                  ]}
+                />
+              )}
+            </View>
+          );
+        })}
+      </View>
+      <View style={styles.axis}>
+        <Text style={styles.axisLabel}>
+          {days[0].date.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+        </Text>
+        <Text style={styles.axisLabel}>
+          {days[days.length - 1].date.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    height: CHART_HEIGHT,
+    paddingHorizontal: 1,
+  },
+  bar: {
+    width: '100%',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  barComplete: {
+    backgroundColor: '#34c759',
+  },
+  barPartial: {
+    backgroundColor: '#ff9500',
+  },
+  barMissed: {
+    backgroundColor: '#ff3b30',
+  },
+  emptyBar: {
+    width: '100%',
+    height: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  axisLabel: {
+    fontSize: 12,
+    color: '#999999',
+  },
+});
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Share,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import {
+  InvalidBackupError,
+  createBackup,
+  parseBackup,
+  planRestore,
+  restoreBackup,
+  serializeBackup,
+  type RestoreCounts,
+  type RestorePlan,
+} from '../services/backup';
+import { describeApiError } from '../services/errors';
+import { createLogger } from '../services/logger';
+import { selectSymptoms, useSymptomActions, useSymptomStore } from '../store/SymptomStoreProvider';
+
+const log = createLogger('BackupRestore');
+
+interface BackupRestoreProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeCounts = (counts: RestoreCounts) =>
+  `${plural(counts.stages, 'stage')}, ${plural(counts.medications, 'medication')}, ${plural(counts.intakes, 'logged dose')}`;
+
+// Shares the symptom tree as a backup, and restores one pasted back in after previewing it
+export default function BackupRestore({ visible, onClose }: BackupRestoreProps) {
+  const store = useSymptomActions();
+  const symptoms = useSymptomStore(selectSymptoms);
+  const [backupText, setBackupText] = useState('');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  // Duplicates are found against the loaded symptoms, so make sure they are there
+  const handleShow = () => {
+    store.load().catch(err => log.warn('Could not refresh symptoms for the backup', err));
+  };
+
+  const handleClose = () => {
+    setBackupText('');
+    setPlan(null);
+    onClose();
+  };
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ title: 'TrackYourMeds backup', message: serializeBackup(createBackup(symptoms)) });
+    } catch (err) {
+      log.error('Failed to share the backup', err);
+      Alert.alert('Error', 'Could not export the backup. Please try again.');
+    }
+  };
+
+  const handlePreview = () => {
+    try {
+      setPlan(planRestore(parseBackup(backupText), symptoms));
+    } catch (err) {
+      setPlan(null);
+      if (err instanceof InvalidBackupError) {
+        Alert.alert('Invalid Backup', err.message);
+        return;
+      }
+      log.error('Failed to read the backup', err);
+      Alert.alert('Error', 'Could not read the backup.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) {
+      return;
+    }
+    setRestoring(true);
+    try {
+      const { created, failure } = await restoreBackup(plan);
+      setPlan(null);
+      const added = `Added ${plural(created.symptoms, 'symptom')}: ${describeCounts(created)}.`;
+      if (!failure) {
+        setBackupText('');
+        Alert.alert('Backup Restored', added);
+        return;
+      }
+      log.error('Restore stopped part way', {
+        symptom: failure.symptomName,
+        missingIntakes: failure.missingIntakes,
+        error: failure.error,
+      });
+      // A retry skips a symptom that already exists, so say which one is incomplete
+      const missing =
+        failure.missingIntakes > 0 ? `without ${plural(failure.missingIntakes, 'logged dose')}` : 'incomplete';
+      const next = failure.symptomCreated
+        ? `"${failure.symptomName}" was added ${missing}. ` +
+          'Delete it and restore again to add the rest; otherwise restoring again skips it.'
+        : 'Restore again to add the rest.';
+      Alert.alert(
+        'Backup Partly Restored',
+        `${added}\n\n${describeApiError(failure.error, `restore "${failure.symptomName}"`)}\n\n${next}`
+      );
+    } catch (err) {
+      log.error('Failed to restore the backup', err);
+      Alert.alert('Error', describeApiError(err, 'restore the backup'));
+    } finally {
+      setRestoring(false);
+      store.load({ forceRefresh: true }).catch(err => log.warn('Could not reload symptoms after restoring', err));
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onShow={handleShow} onRequestClose={handleClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleClose} style={styles.headerButton} disabled={restoring}>
+            <Text style={styles.headerButtonText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>Backup & Restore</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Back up</Text>
+          <Text style={styles.notice}>
+            Saves every symptom with its stages, medications and logged doses. Keep the file somewhere safe; it
+            contains health data.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleShare}>
+            <Ionicons name="share-outline" size={20} color="#ffffff" />
+            <Text style={styles.primaryButtonText}>Share Backup</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.label}>Restore</Text>
+          <Text style={styles.notice}>
+            Paste the contents of a backup file. Symptoms that already exist with the same name are skipped.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={backupText}
+            onChangeText={text => {
+              setBackupText(text);
+              setPlan(null);
+            }}
+            placeholder="Paste backup here"
+            placeholderTextColor="#999"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!restoring}
+          />
+          <TouchableOpacity
+            style={[styles.secondaryButton, !backupText.trim() && styles.buttonDisabled]}
+            onPress={handlePreview}
+            disabled={!backupText.trim() || restoring}
+          >
+            <Text style={styles.secondaryButtonText}>Preview</Text>
+          </TouchableOpacity>
+
+          {plan && (
+            <View style={styles.preview}>
+              {plan.items.map((item, index) => (
+                <View key={`${item.symptom.id}-${index}`} style={styles.previewRow}>
+                  <Ionicons
+                    name={item.duplicateOf ? 'remove-circle-outline' : 'add-circle-outline'}
+                    size={20}
+                    color={item.duplicateOf ? '#999' : '#34c759'}
+                  />
+                  <View style={styles.previewText}>
+                    <Text style={[styles.previewName, item.duplicateOf && styles.previewSkipped]}>
+                      {item.symptom.name}
+                    </Text>
+                    <Text style={styles.previewDetail}>
+                      {item.duplicateOf ? 'Already exists, will be skipped' : describeCounts(item.counts)}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+
+              {plan.toCreate.symptoms === 0 ? (
+                <Text style={styles.notice}>Nothing to restore: every symptom in the backup already exists.</Text>
+              ) : (
+                <TouchableOpacity style={styles.primaryButton} onPress={handleRestore} disabled={restoring}>
+                  {restoring ? (
+                    <ActivityIndicator color="#ffffff" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Restore {plural(plan.toCreate.symptoms, 'Symptom')}</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  notice: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 12,
+    marginTop: 12,
+    minHeight: 120,
+    maxHeight: 200,
+    fontSize: 13,
+    color: '#333333',
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  preview: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  previewText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  previewName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  previewSkipped: {
+    color: '#999999',
+  },
+  previewDetail: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { describeDoseCheck, formatMg, type DoseCheck, type DoseCheckStatus } from '../utils/doseSafety';
+
+interface DailyDoseSummaryProps {
+  check: DoseCheck;
+}
+
+const STATUS_STYLES: Record<DoseCheckStatus, { icon: string; color: string }> = {
+  unknown: { icon: 'calculator-outline', color: '#666666' },
+  ok: { icon: 'checkmark-circle-outline', color: '#34c759' },
+  aboveUsual: { icon: 'warning-outline', color: '#ff9500' },
+  aboveAbsolute: { icon: 'alert-circle-outline', color: '#ff3b30' },
+};
+
+// Live daily total for a medication being entered, with how it compares to the reference maximum
+export default function DailyDoseSummary({ check }: DailyDoseSummaryProps) {
+  const status = STATUS_STYLES[check.status];
+
+  let detail: string;
+  if (check.dailyTotalMg === null) {
+    detail = 'Enter a dosage and interval to see the daily total';
+  } else if (!check.limit) {
+    detail = `${formatMg(check.dailyTotalMg)} a day · no reference maximum for this medication`;
+  } else {
+    detail =
+      describeDoseCheck(check) ??
+      `${formatMg(check.dailyTotalMg)} a day · within the usual maximum of ${formatMg(check.limit.usualMaxMg)}`;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name={status.icon} size={16} color={status.color} />
+      <Text style={[styles.text, { color: status.color }]}>{detail}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 4,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    marginLeft: 6,
+    lineHeight: 18,
+  },
+});
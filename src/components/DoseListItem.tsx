@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { CalendarDose } from '../utils/calendar';
+
+interface DoseListItemProps {
+  dose: CalendarDose;
+}
+
+const STATUS_ICONS = {
+  taken: { name: 'checkmark-circle', color: '#34c759', label: 'Taken' },
+  skipped: { name: 'remove-circle', color: '#ff9500', label: 'Skipped' },
+  missed: { name: 'close-circle', color: '#ff3b30', label: 'Missed' },
+  scheduled: { name: 'time-outline', color: '#007AFF', label: 'Scheduled' },
+};
+
+export default function DoseListItem({ dose }: DoseListItemProps) {
+  const status = STATUS_ICONS[dose.status];
+  const takenAt = dose.intake?.actualTime
+    ? new Date(dose.intake.actualTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.time}>
+        {dose.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </Text>
+      <View style={styles.details}>
+        <Text style={styles.medicationName} numberOfLines={1}>
+          {dose.medication.name} · {dose.medication.quantityMg}mg
+        </Text>
+        <Text style={styles.context} numberOfLines={1}>
+          {dose.symptomName} · {dose.stageName}
+        </Text>
+      </View>
+      <View style={styles.status}>
+        <Ionicons name={status.name} size={20} color={status.color} />
+        <Text style={[styles.statusLabel, { color: status.color }]}>
+          {takenAt ? takenAt : status.label}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  time: {
+    width: 56,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  details: {
+    flex: 1,
+    marginRight: 8,
+  },
+  medicationName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  context: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  status: {
+    alignItems: 'center',
+    minWidth: 64,
+  },
+  statusLabel: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
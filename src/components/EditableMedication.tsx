@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { Medication, PartialMedication } from '../services/api';
+import { matchFormulary } from '../utils/formulary';
+
+interface EditableMedicationProps {
+  medication: Medication;
+  onSave: (medication: Medication, changes: PartialMedication) => Promise<void>;
+  onDelete: (medication: Medication) => void;
+}
+
+export default function EditableMedication({ medication, onSave, onDelete }: EditableMedicationProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState(medication.name);
+  const [quantityMg, setQuantityMg] = useState(medication.quantityMg.toString());
+  const [intervalHours, setIntervalHours] = useState(medication.intervalHours.toString());
+  const [totalDays, setTotalDays] = useState(medication.totalDays.toString());
+
+  const startEditing = () => {
+    setName(medication.name);
+    setQuantityMg(medication.quantityMg.toString());
+    setIntervalHours(medication.intervalHours.toString());
+    setTotalDays(medication.totalDays.toString());
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const values = {
+      quantityMg: parseInt(quantityMg, 10),
+      intervalHours: parseInt(intervalHours, 10),
+      totalDays: parseInt(totalDays, 10),
+    };
+
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a medication name');
+      return;
+    }
+    if (Object.values(values).some(value => !(value > 0))) {
+      Alert.alert('Error', 'Dosage, interval and duration must be greater than 0');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // A renamed medication keeps its formulary link only if the new name still matches a drug
+      const formularyId =
+        name.trim() === medication.name ? medication.formularyId : matchFormulary(name)?.id ?? null;
+      await onSave(medication, { ...medication, name: name.trim(), formularyId, ...values });
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.summary}>
+          <Text style={styles.name}>{medication.name}</Text>
+          <Text style={styles.details}>
+            {medication.quantityMg}mg every {medication.intervalHours}h for {medication.totalDays} days
+          </Text>
+        </View>
+        <TouchableOpacity onPress={startEditing} style={styles.iconButton}>
+          <Ionicons name="create-outline" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => onDelete(medication)} style={styles.iconButton}>
+          <Ionicons name="trash-outline" size={20} color="#ff3b30" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.editor}>
+      <Text style={styles.label}>Medication Name</Text>
+      <TextInput style={styles.input} value={name} onChangeText={setName} placeholderTextColor="#999" />
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Dosage (mg)</Text>
+          <TextInput style={styles.input} value={quantityMg} onChangeText={setQuantityMg} keyboardType="numeric" />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Interval (h)</Text>
+          <TextInput style={styles.input} value={intervalHours} onChangeText={setIntervalHours} keyboardType="numeric" />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Days</Text>
+          <TextInput style={styles.input} value={totalDays} onChangeText={setTotalDays} keyboardType="numeric" />
+        </View>
+      </View>
+
+      <View style={styles.editorActions}>
+        <TouchableOpacity onPress={() => setIsEditing(false)} style={styles.cancelButton} disabled={isSaving}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleSave} style={styles.saveButton} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  summary: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  details: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  editor: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 15,
+    color: '#333333',
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  saveButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
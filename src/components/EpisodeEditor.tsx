@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import type { Symptom } from '../services/api';
+import { SEVERITY_RANGE, getCurrentUpdate } from '../store/episodeStore';
+import {
+  selectOpenEpisode,
+  useEpisodeActions,
+  useEpisodeStore,
+  useSymptomActions,
+} from '../store/SymptomStoreProvider';
+import { TIME_OFFSETS_MINUTES, describeSeverity, formatEpisodeDuration, formatOffset } from '../utils/episodes';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('EpisodeEditor');
+
+const SEVERITIES = Array.from(
+  { length: SEVERITY_RANGE.MAX - SEVERITY_RANGE.MIN + 1 },
+  (_, index) => SEVERITY_RANGE.MIN + index
+);
+
+interface EpisodeEditorProps {
+  symptom: Symptom | null;
+  onClose: () => void;
+}
+
+// Starts an episode of the symptom, or records how the ongoing one has changed and ends it
+export default function EpisodeEditor({ symptom, onClose }: EpisodeEditorProps) {
+  const store = useSymptomActions();
+  const episodes = useEpisodeActions();
+  const episode = useEpisodeStore(selectOpenEpisode(symptom?.id ?? 0));
+  const [stageId, setStageId] = useState<number | null>(null);
+  const [severity, setSeverity] = useState(5);
+  const [notes, setNotes] = useState('');
+  const [offsetMinutes, setOffsetMinutes] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from how the symptom was last recorded
+  const handleShow = () => {
+    const current = episode ? getCurrentUpdate(episode) : null;
+    setStageId(current?.stageId ?? symptom?.stages[0]?.id ?? null);
+    setSeverity(current?.severity ?? 5);
+    setNotes('');
+    setOffsetMinutes(0);
+  };
+
+  const run = async (action: () => Promise<unknown>, actionName: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onClose();
+    } catch (err) {
+      log.error(`Failed to ${actionName}`, err);
+      Alert.alert('Error', err instanceof Error ? err.message : `Could not ${actionName}. Please try again.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buildInput = (current: Symptom) => ({
+    stage: current.stages.find(stage => stage.id === stageId) ?? null,
+    severity,
+    notes,
+    time: new Date(Date.now() - offsetMinutes * 60000),
+  });
+
+  // The recorded stage also becomes the symptom's current stage, switching its medications
+  const handleSave = () => {
+    if (!symptom) return;
+    const input = buildInput(symptom);
+    run(async () => {
+      if (episode) {
+        await episodes.recordUpdate(episode.id, input);
+      } else {
+        await episodes.startEpisode(symptom.id, input);
+      }
+      if (input.stage) {
+        await store.setCurrentStage(symptom.id, input.stage.id);
+      }
+    }, episode ? 'record the update' : 'start the episode');
+  };
+
+  // Notes written before ending are kept as a final update
+  const handleEnd = () => {
+    if (!symptom || !episode) return;
+    const input = buildInput(symptom);
+    run(async () => {
+      if (notes.trim()) {
+        await episodes.recordUpdate(episode.id, input);
+      }
+      await episodes.endEpisode(episode.id, input.time);
+    }, 'end the episode');
+  };
+
+  return (
+    <Modal visible={symptom !== null} animationType="slide" onShow={handleShow} onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>{symptom?.name}</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.headerButton} disabled={isSaving}>
+            <Text style={[styles.headerButtonText, styles.saveText]}>{episode ? 'Update' : 'Start'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {episode && (
+            <Text style={styles.summary}>
+              {formatEpisodeDuration(episode)}, started{' '}
+              {new Date(episode.startedAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          )}
+
+          <Text style={styles.label}>Stage</Text>
+          {symptom && symptom.stages.length > 0 ? (
+            <View style={styles.chips}>
+              {symptom.stages.map(stage => (
+                <TouchableOpacity
+                  key={stage.id}
+                  style={[styles.chip, stageId === stage.id && styles.chipSelected]}
+                  onPress={() => setStageId(stage.id)}
+                >
+                  <Text style={[styles.chipText, stageId === stage.id && styles.chipTextSelected]}>{stage.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.hint}>This symptom has no stages</Text>
+          )}
+
+          <Text style={styles.label}>Severity: {describeSeverity(severity)}</Text>
+          <View style={styles.chips}>
+            {SEVERITIES.map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.severityChip, severity === value && styles.chipSelected]}
+                onPress={() => setSeverity(value)}
+              >
+                <Text style={[styles.chipText, severity === value && styles.chipTextSelected]}>{value}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>When</Text>
+          <View style={styles.chips}>
+            {TIME_OFFSETS_MINUTES.map(minutes => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, offsetMinutes === minutes && styles.chipSelected]}
+                onPress={() => setOffsetMinutes(minutes)}
+              >
+                <Text style={[styles.chipText, offsetMinutes === minutes && styles.chipTextSelected]}>
+                  {formatOffset(minutes)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g., Started after skipping lunch"
+            placeholderTextColor="#999"
+            multiline={true}
+          />
+
+          {episode && (
+            <TouchableOpacity style={styles.endButton} onPress={handleEnd} disabled={isSaving}>
+              <Text style={styles.endButtonText}>End Episode</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    textAlign: 'center',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  saveText: {
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#999999',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  severityChip: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 6,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  notesInput: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333333',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  endButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ff3b30',
+    alignItems: 'center',
+  },
+  endButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff3b30',
+  },
+});
@@ -0,0 +1,150 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { Episode } from '../store/episodeStore';
+import { describeSeverity, formatEpisodeDuration, getSeverityLevel, type SeverityLevel } from '../utils/episodes';
+
+interface EpisodeTimelineProps {
+  episodes: Episode[]; // newest first
+  onDelete: (episode: Episode) => void;
+}
+
+const SEVERITY_COLORS: Record<SeverityLevel, string> = {
+  none: '#34c759',
+  mild: '#8fd14f',
+  moderate: '#ff9500',
+  severe: '#ff3b30',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Each episode with every change of stage and severity in the order it happened
+export default function EpisodeTimeline({ episodes, onDelete }: EpisodeTimelineProps) {
+  if (episodes.length === 0) {
+    return <Text style={styles.emptyText}>No episodes recorded yet</Text>;
+  }
+
+  return (
+    <View>
+      {episodes.map(episode => (
+        <View key={episode.id} style={styles.episode}>
+          <View style={styles.episodeHeader}>
+            <View style={styles.episodeTitle}>
+              <Text style={styles.episodeDate}>{formatDate(episode.startedAt)}</Text>
+              <Text style={styles.episodeDuration}>{formatEpisodeDuration(episode)}</Text>
+            </View>
+            <TouchableOpacity onPress={() => onDelete(episode)} style={styles.deleteButton}>
+              <Ionicons name="trash-outline" size={18} color="#ff3b30" />
+            </TouchableOpacity>
+          </View>
+
+          {episode.updates.map((update, index) => (
+            <View key={`${update.time}-${index}`} style={styles.entry}>
+              <View style={styles.rail}>
+                <View style={[styles.dot, { backgroundColor: SEVERITY_COLORS[getSeverityLevel(update.severity)] }]} />
+                <View style={styles.line} />
+              </View>
+              <View style={styles.entryContent}>
+                <Text style={styles.entryTitle}>
+                  {formatTime(update.time)} · {index === 0 ? 'Started' : 'Changed'}
+                  {update.stageName ? ` · ${update.stageName}` : ''}
+                </Text>
+                <Text style={styles.entryDetail}>{describeSeverity(update.severity)}</Text>
+                {update.notes ? <Text style={styles.entryNotes}>{update.notes}</Text> : null}
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.entry}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, styles.endDot]} />
+            </View>
+            <View style={styles.entryContent}>
+              <Text style={styles.entryTitle}>
+                {episode.endedAt ? `${formatTime(episode.endedAt)} · Ended` : 'Ongoing'}
+              </Text>
+            </View>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    fontStyle: 'italic',
+  },
+  episode: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  episodeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  episodeTitle: {
+    flex: 1,
+  },
+  episodeDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  episodeDuration: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  endDot: {
+    backgroundColor: '#cccccc',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+    marginVertical: 2,
+  },
+  entryContent: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 10,
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  entryDetail: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  entryNotes: {
+    fontSize: 13,
+    color: '#333333',
+    marginTop: 4,
+  },
+});
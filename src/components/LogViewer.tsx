@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, FlatList, TouchableOpacity, Share, Alert, Platform } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import {
+  clearLogEntries,
+  exportLogs,
+  formatLogEntry,
+  getLogEntries,
+  type LogEntry,
+  type LogLevel,
+} from '../services/logger';
+
+interface LogViewerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '#999999',
+  info: '#333333',
+  warn: '#ff9500',
+  error: '#ff3b30',
+};
+
+export default function LogViewer({ visible, onClose }: LogViewerProps) {
+  // Newest first; a snapshot taken when the viewer opens
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+
+  const loadEntries = () => setEntries(getLogEntries().reverse());
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ title: 'TrackYourMeds logs', message: exportLogs() || 'No log entries' });
+    } catch {
+      Alert.alert('Error', 'Could not export the logs. Please try again.');
+    }
+  };
+
+  const handleClear = () => {
+    clearLogEntries();
+    loadEntries();
+  };
+
+  const renderEntry = ({ item }: { item: LogEntry }) => (
+    <Text style={[styles.entry, { color: LEVEL_COLORS[item.level] }]} selectable={true}>
+      {formatLogEntry(item)}
+    </Text>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onShow={loadEntries} onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Logs</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={handleClear} style={styles.headerButton}>
+              <Ionicons name="trash-outline" size={20} color="#ff3b30" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleExport} style={styles.headerButton}>
+              <Ionicons name="share-outline" size={20} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+        </View>
+        <Text style={styles.notice}>
+          Symptom, medication and account details are replaced with [redacted].
+        </Text>
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={(item, index) => `${item.timestamp}-${index}`}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={<Text style={styles.emptyText}>No log entries yet</Text>}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  notice: {
+    fontSize: 13,
+    color: '#666666',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  list: {
+    paddingHorizontal: 12,
+    paddingBottom: 32,
+  },
+  entry: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    fontSize: 11,
+    paddingVertical: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
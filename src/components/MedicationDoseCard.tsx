@@ -0,0 +1,229 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { Intake, Medication } from '../services/api';
+import { getDoseSchedule, formatNextDose } from '../utils/doseSchedule';
+import { getSnoozedUntil, isSkipped } from '../services/doseActions';
+
+interface MedicationDoseCardProps {
+  medication: Medication;
+  now: Date;
+  busy?: boolean;
+  onTake: (medication: Medication, scheduledTime: Date) => void;
+  onSkip: (medication: Medication, scheduledTime: Date) => void;
+  onSnooze: (medication: Medication, scheduledTime: Date) => void;
+  onEditIntake: (medication: Medication, intake: Intake) => void;
+}
+
+const STATUS_COLORS = {
+  'not-started': '#007AFF',
+  due: '#ff3b30',
+  upcoming: '#34c759',
+  completed: '#999999',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function MedicationDoseCard({
+  medication,
+  now,
+  busy = false,
+  onTake,
+  onSkip,
+  onSnooze,
+  onEditIntake,
+}: MedicationDoseCardProps) {
+  const schedule = getDoseSchedule(medication, now);
+  const isDue = schedule.status === 'due' || schedule.status === 'not-started';
+  const scheduledTime = schedule.nextDose;
+  const snoozedUntil = isDue && scheduledTime ? getSnoozedUntil(medication.id, scheduledTime, now) : null;
+  const lastIntake = schedule.lastIntake;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.statusBar, { backgroundColor: STATUS_COLORS[schedule.status] }]} />
+      <View style={styles.content}>
+        <View style={styles.headerRow}>
+          <Text style={styles.medicationName} numberOfLines={1}>
+            {medication.name}
+          </Text>
+          <Text style={styles.dosage}>{medication.quantityMg}mg</Text>
+        </View>
+        <Text style={styles.details}>
+          Every {medication.intervalHours}h for {medication.totalDays} days
+        </Text>
+        <View style={styles.footerRow}>
+          <Text style={[styles.nextDose, { color: STATUS_COLORS[schedule.status] }]}>
+            {formatNextDose(schedule, now)}
+          </Text>
+          <Text style={styles.progress}>
+            {schedule.dosesLogged}/{schedule.totalDoses} doses
+          </Text>
+        </View>
+
+        {snoozedUntil && (
+          <Text style={styles.snoozedText}>
+            Snoozed until {formatTime(snoozedUntil.toISOString())}
+          </Text>
+        )}
+
+        {lastIntake && (
+          <TouchableOpacity
+            style={styles.lastIntakeRow}
+            onPress={() => onEditIntake(medication, lastIntake)}
+            disabled={busy}
+          >
+            <Text style={styles.lastIntakeText}>
+              Last dose: {isSkipped(lastIntake)
+                ? `skipped (${formatTime(lastIntake.scheduledTime)})`
+                : `taken at ${formatTime(lastIntake.actualTime!)}`}
+            </Text>
+            <Text style={styles.editText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+
+        {isDue && scheduledTime && (
+          <View style={styles.actionsRow}>
+            {busy ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.takenButton]}
+                  onPress={() => onTake(medication, scheduledTime)}
+                >
+                  <Ionicons name="checkmark" size={16} color="#ffffff" />
+                  <Text style={styles.takenButtonText}>Taken</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => onSkip(medication, scheduledTime)}
+                >
+                  <Ionicons name="play-skip-forward-outline" size={16} color="#007AFF" />
+                  <Text style={styles.actionButtonText}>Skip</Text>
+                </TouchableOpacity>
+                {!snoozedUntil && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => onSnooze(medication, scheduledTime)}
+                  >
+                    <Ionicons name="alarm-outline" size={16} color="#007AFF" />
+                    <Text style={styles.actionButtonText}>Snooze</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  statusBar: {
+    width: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  medicationName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginRight: 8,
+  },
+  dosage: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666666',
+  },
+  details: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  footerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  nextDose: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    marginRight: 8,
+  },
+  progress: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  snoozedText: {
+    fontSize: 13,
+    color: '#ff9500',
+    marginTop: 6,
+  },
+  lastIntakeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  lastIntakeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666666',
+  },
+  editText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f0f8ff',
+  },
+  takenButton: {
+    backgroundColor: '#34c759',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  takenButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
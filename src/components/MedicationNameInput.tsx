@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { FormularyEntry } from '../data/formulary';
+import { findFormularyEntry, searchFormulary } from '../utils/formulary';
+
+interface MedicationNameInputProps {
+  value: string;
+  formularyId: string | null | undefined;
+  onChangeText: (text: string) => void;
+  onSelect: (entry: FormularyEntry) => void;
+  style?: StyleProp<TextStyle>;
+  placeholder?: string;
+}
+
+// Free-text name field with suggestions from the bundled formulary. Typing unlinks
+// the medication from the formulary until a suggestion is picked again.
+export default function MedicationNameInput({
+  value,
+  formularyId,
+  onChangeText,
+  onSelect,
+  style,
+  placeholder = 'e.g., Ibuprofen, Paracetamol',
+}: MedicationNameInputProps) {
+  const [focused, setFocused] = useState(false);
+  const linked = findFormularyEntry(formularyId);
+  const suggestions = useMemo(() => searchFormulary(value), [value]);
+  const showSuggestions = focused && !linked && suggestions.length > 0;
+
+  const handleSelect = (entry: FormularyEntry) => {
+    onSelect(entry);
+    setFocused(false);
+  };
+
+  return (
+    <View>
+      <TextInput
+        style={style}
+        value={value}
+        onChangeText={onChangeText}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        placeholder={placeholder}
+        placeholderTextColor="#999"
+        autoCorrect={false}
+      />
+      {linked && (
+        <View style={styles.linkedRow}>
+          <Ionicons name="checkmark-circle" size={14} color="#34c759" />
+          <Text style={styles.linkedText}>{linked.name} from the medication list</Text>
+        </View>
+      )}
+      {showSuggestions && (
+        <View style={styles.suggestions}>
+          {suggestions.map(({ entry, matchedName }) => (
+            <TouchableOpacity key={entry.id} style={styles.suggestion} onPress={() => handleSelect(entry)}>
+              <Text style={styles.suggestionName}>{entry.name}</Text>
+              <Text style={styles.suggestionDetail}>
+                {matchedName !== entry.name ? `${matchedName} · ` : ''}
+                {entry.strengthsMg.map(mg => `${mg}mg`).join(', ')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  linkedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  linkedText: {
+    fontSize: 12,
+    color: '#666666',
+    marginLeft: 4,
+  },
+  suggestions: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  suggestion: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  suggestionName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  suggestionDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { MedicationWarning, WarningSeverity } from '../utils/medicationChecks';
+
+interface MedicationWarningsProps {
+  warnings: MedicationWarning[];
+}
+
+const SEVERITY_STYLES: Record<WarningSeverity, { icon: string; color: string; background: string }> = {
+  caution: { icon: 'warning-outline', color: '#b36b00', background: '#fff4e0' },
+  danger: { icon: 'alert-circle-outline', color: '#c62828', background: '#fdecea' },
+};
+
+// Duplicate ingredients, combined daily totals and interactions; renders nothing when all is well
+export default function MedicationWarnings({ warnings }: MedicationWarningsProps) {
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {warnings.map(warning => {
+        const severity = SEVERITY_STYLES[warning.severity];
+        return (
+          <View
+            key={`${warning.kind}-${warning.title}`}
+            style={[styles.warning, { backgroundColor: severity.background, borderLeftColor: severity.color }]}
+          >
+            <View style={styles.titleRow}>
+              <Ionicons name={severity.icon} size={18} color={severity.color} />
+              <Text style={[styles.title, { color: severity.color }]}>{warning.title}</Text>
+            </View>
+            <Text style={styles.message}>{warning.message}</Text>
+          </View>
+        );
+      })}
+      <Text style={styles.disclaimer}>
+        Based on a built-in reference list. Check with a doctor or pharmacist before changing what you take.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  warning: {
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    padding: 12,
+    marginBottom: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  message: {
+    fontSize: 14,
+    color: '#333333',
+    lineHeight: 20,
+  },
+  disclaimer: {
+    fontSize: 12,
+    color: '#999999',
+  },
+});
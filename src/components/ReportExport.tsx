@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Share, Alert } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { addDays } from '../utils/calendar';
+import { buildReport, formatReport, type ReportFormat } from '../utils/report';
+import { createLogger } from '../services/logger';
+import {
+  selectCurrentStages,
+  selectEpisodes,
+  selectSymptoms,
+  useEpisodeStore,
+  useSymptomActions,
+  useSymptomStore,
+} from '../store/SymptomStoreProvider';
+
+const log = createLogger('ReportExport');
+
+interface ReportExportProps {
+  visible: boolean;
+  symptomId?: number | null; // limit the report to one symptom
+  onClose: () => void;
+}
+
+const RANGE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All', days: null },
+];
+
+const FORMAT_OPTIONS: { format: ReportFormat; label: string; description: string }[] = [
+  { format: 'html', label: 'HTML summary', description: 'Page source; save it as a .html file to view or print' },
+  { format: 'csv', label: 'CSV', description: 'One row per logged dose; save it as a .csv file for spreadsheets' },
+  { format: 'json', label: 'JSON', description: 'Everything, for other apps' },
+];
+
+// Picks a period and format, then hands the report to the system share sheet. The share sheet
+// only takes text here, so every format goes out as text for the recipient to save as a file.
+export default function ReportExport({ visible, symptomId = null, onClose }: ReportExportProps) {
+  const store = useSymptomActions();
+  const symptoms = useSymptomStore(selectSymptoms);
+  const currentStages = useSymptomStore(selectCurrentStages);
+  const episodes = useEpisodeStore(selectEpisodes);
+  const [rangeDays, setRangeDays] = useState<number | null>(90);
+  const [format, setFormat] = useState<ReportFormat>('html');
+
+  const symptomName = symptomId === null ? null : symptoms.find(s => s.id === symptomId)?.name;
+
+  // Settings can be opened before any other tab has loaded the symptoms
+  const handleShow = () => {
+    store.load().catch(err => log.warn('Could not refresh symptoms for the report', err));
+  };
+
+  const handleShare = async () => {
+    const now = new Date();
+    const from =
+      rangeDays === null ? null : addDays(new Date(now.getFullYear(), now.getMonth(), now.getDate()), 1 - rangeDays);
+    const report = buildReport(symptoms, currentStages, episodes, { from, to: now }, symptomId);
+    const title = symptomName ? `${symptomName} medication report` : 'Medication report';
+
+    try {
+      await Share.share({ title, message: formatReport(report, format) });
+    } catch (err) {
+      log.error('Failed to share the report', err);
+      Alert.alert('Error', 'Could not export the report. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onShow={handleShow} onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>Doctor Report</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <View style={styles.content}>
+          <Text style={styles.notice}>
+            {symptomName ? `Covers ${symptomName}` : 'Covers all symptoms'}: regimen, logged doses, adherence and
+            recorded episodes. It is shared as text, not as a file. The report contains health data; only share it
+            with people you trust.
+          </Text>
+
+          <Text style={styles.label}>Period</Text>
+          <View style={styles.chips}>
+            {RANGE_OPTIONS.map(option => {
+              const selected = rangeDays === option.days;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setRangeDays(option.days)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Format</Text>
+          {FORMAT_OPTIONS.map(option => {
+            const selected = format === option.format;
+            return (
+              <TouchableOpacity
+                key={option.format}
+                style={[styles.formatOption, selected && styles.formatOptionSelected]}
+                onPress={() => setFormat(option.format)}
+              >
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? '#007AFF' : '#999'}
+                />
+                <View style={styles.formatText}>
+                  <Text style={styles.formatLabel}>{option.label}</Text>
+                  <Text style={styles.formatDescription}>{option.description}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+            <Ionicons name="share-outline" size={20} color="#ffffff" />
+            <Text style={styles.shareButtonText}>Share Report</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 16,
+  },
+  notice: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  formatOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 12,
+    marginBottom: 8,
+  },
+  formatOptionSelected: {
+    borderColor: '#007AFF',
+  },
+  formatText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  formatLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  formatDescription: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 24,
+  },
+  shareButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginLeft: 8,
+  },
+});
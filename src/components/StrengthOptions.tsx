@@ -0,0 +1,61 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { findFormularyEntry } from '../utils/formulary';
+
+interface StrengthOptionsProps {
+  formularyId: string | null | undefined;
+  selectedMg: number;
+  onSelect: (mg: number) => void;
+}
+
+// Common strengths of the linked formulary drug as one-tap choices; nothing for free-text names
+export default function StrengthOptions({ formularyId, selectedMg, onSelect }: StrengthOptionsProps) {
+  const entry = findFormularyEntry(formularyId);
+  if (!entry) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {entry.strengthsMg.map(mg => {
+        const selected = mg === selectedMg;
+        return (
+          <TouchableOpacity
+            key={mg}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(mg)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{mg}mg</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+});
@@ -1,25 +1,84 @@
 import React from 'react';
-import { View, Text, StyleSheet, Switch } from 'react-native';
-import type { Symptom } from '../services/api';
+import { View, Text, StyleSheet, Switch, TouchableOpacity } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { Stage, Symptom } from '../services/api';
+import { getCurrentUpdate, type Episode } from '../store/episodeStore';
+import { describeSeverity } from '../utils/episodes';
 
 interface SymptomCardProps {
   symptom: Symptom;
   onToggleActive: (symptomId: number, value: boolean) => void;
+  onPress?: (symptom: Symptom) => void;
+  episode?: Episode; // the ongoing episode, if any
+  onRecordEpisode?: (symptom: Symptom) => void;
+  currentStage?: Stage | null;
+  onChangeStage?: (symptom: Symptom, step: 1 | -1) => void; // 1 escalates, -1 de-escalates
 }
 
-export default function SymptomCard({ symptom, onToggleActive }: SymptomCardProps) {
+export default function SymptomCard({
+  symptom,
+  onToggleActive,
+  onPress,
+  episode,
+  onRecordEpisode,
+  currentStage,
+  onChangeStage,
+}: SymptomCardProps) {
+  const current = episode ? getCurrentUpdate(episode) : null;
+  const stageIndex = currentStage ? symptom.stages.indexOf(currentStage) : -1;
+  const showStage = symptom.isActive && currentStage && onChangeStage && symptom.stages.length > 1;
+
   const handleToggle = (value: boolean) => {
     onToggleActive(symptom.id, value);
   };
 
   return (
-    <View style={styles.container}>
+    <TouchableOpacity
+      style={styles.container}
+      onPress={() => onPress?.(symptom)}
+      disabled={!onPress}
+      activeOpacity={0.7}
+    >
       <View style={styles.content}>
         <View style={styles.textContainer}>
           <Text style={styles.symptomName} numberOfLines={2} ellipsizeMode="tail">
             {symptom.name}
           </Text>
+          {showStage && (
+            <View style={styles.stageRow}>
+              <TouchableOpacity
+                onPress={() => onChangeStage(symptom, -1)}
+                disabled={stageIndex <= 0}
+                style={styles.stageButton}
+              >
+                <Ionicons name="chevron-down-circle-outline" size={22} color={stageIndex <= 0 ? '#cccccc' : '#007AFF'} />
+              </TouchableOpacity>
+              <Text style={styles.stageName} numberOfLines={1}>{currentStage.name}</Text>
+              <TouchableOpacity
+                onPress={() => onChangeStage(symptom, 1)}
+                disabled={stageIndex >= symptom.stages.length - 1}
+                style={styles.stageButton}
+              >
+                <Ionicons
+                  name="chevron-up-circle-outline"
+                  size={22}
+                  color={stageIndex >= symptom.stages.length - 1 ? '#cccccc' : '#007AFF'}
+                />
+              </TouchableOpacity>
+            </View>
+          )}
+          {episode && current && (
+            <Text style={styles.episodeText} numberOfLines={1}>
+              {[current.stageName, describeSeverity(current.severity)].filter(Boolean).join(' · ')} since{' '}
+              {new Date(episode.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          )}
         </View>
+        {onRecordEpisode && (
+          <TouchableOpacity style={styles.episodeButton} onPress={() => onRecordEpisode(symptom)}>
+            <Ionicons name={current ? 'pulse' : 'pulse-outline'} size={22} color={current ? '#ff9500' : '#007AFF'} />
+          </TouchableOpacity>
+        )}
         <View style={styles.toggleContainer}>
           <Text style={styles.activeLabel}>Active</Text>
           <Switch
@@ -31,7 +90,7 @@ export default function SymptomCard({ symptom, onToggleActive }: SymptomCardProp
           />
         </View>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 }
 
@@ -51,7 +110,7 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
     minHeight: 80, // Fixed minimum height
-    maxHeight: 100, // Maximum height to prevent cards from being too tall
+    maxHeight: 140, // Maximum height to prevent cards from being too tall
   },
   content: {
     flexDirection: 'row',
@@ -70,6 +129,30 @@ const styles = StyleSheet.create({
     color: '#333333',
     lineHeight: 22,
   },
+  stageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  stageButton: {
+    padding: 2,
+  },
+  stageName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#007AFF',
+    marginHorizontal: 6,
+    flexShrink: 1,
+  },
+  episodeText: {
+    fontSize: 13,
+    color: '#ff9500',
+    marginTop: 4,
+  },
+  episodeButton: {
+    padding: 8,
+    marginRight: 8,
+  },
   toggleContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,27 +10,158 @@ import {
 } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { PartialMedication } from '../services/api';
+import { checkDailyDose, describeDoseCheck, parseWholeNumber } from '../utils/doseSafety';
+import DailyDoseSummary from './DailyDoseSummary';
+import MedicationWarnings from './MedicationWarnings';
+import MedicationNameInput from './MedicationNameInput';
+import StrengthOptions from './StrengthOptions';
+import type { FormularyEntry } from '../data/formulary';
+import { checkNewMedications, type MedicationEntry } from '../utils/medicationChecks';
+import { reorderStages, validateStageName } from '../utils/stages';
 
 interface StageData {
   name: string;
   medications: PartialMedication[];
 }
 
+// Stages carry a stable key so they keep their identity while being renamed or reordered
+interface FormStage extends StageData {
+  key: number;
+}
+
 interface SymptomFormProps {
   symptomName: string;
   onSave: (stages: StageData[]) => void;
   onCancel: () => void;
+  // Field errors reported by the server, keyed like the form's own `${stageIndex}-${medIndex}-${field}`
+  serverErrors?: {[key: string]: string};
+  // Medications of the symptoms already active, checked against the ones entered here
+  activeMedications?: MedicationEntry[];
 }
 
-export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFormProps) {
-  const [stages, setStages] = useState<StageData[]>([
-    { name: 'Early', medications: [] },
-    { name: 'Mild', medications: [] },
-    { name: 'Severe', medications: [] }
-  ]);
+const DEFAULT_STAGE_NAMES = ['Early', 'Mild', 'Severe'];
+
+const NO_MEDICATIONS: MedicationEntry[] = [];
+
+let nextStageKey = 0;
+
+const createStage = (name: string): FormStage => ({ key: nextStageKey++, name, medications: [] });
+
+export default function SymptomForm({
+  symptomName,
+  onSave,
+  onCancel,
+  serverErrors,
+  activeMedications = NO_MEDICATIONS,
+}: SymptomFormProps) {
+  const [stages, setStages] = useState<FormStage[]>(() => DEFAULT_STAGE_NAMES.map(createStage));
 
   const [expandedStage, setExpandedStage] = useState<number | null>(null);
   const [validationErrors, setValidationErrors] = useState<{[key: string]: string}>({});
+  const [renamingStage, setRenamingStage] = useState<number | null>(null);
+  const [stageNameDraft, setStageNameDraft] = useState('');
+  const [newStageName, setNewStageName] = useState('');
+
+  const medicationWarnings = useMemo(
+    () =>
+      checkNewMedications(
+        activeMedications,
+        stages.flatMap(stage =>
+          stage.medications.map(medication => ({
+            name: medication.name,
+            quantityMg: medication.quantityMg,
+            intervalHours: medication.intervalHours,
+            symptomKey: 'new',
+            stageKey: `${stage.key}`,
+            symptomName,
+            stageName: stage.name,
+            formularyId: medication.formularyId,
+          }))
+        )
+      ),
+    [activeMedications, stages, symptomName]
+  );
+
+  // Show server-side errors next to the fields they belong to and open the first affected stage
+  useEffect(() => {
+    if (!serverErrors || Object.keys(serverErrors).length === 0) {
+      return;
+    }
+    setValidationErrors(prev => ({ ...prev, ...serverErrors }));
+    const firstStage = parseInt(Object.keys(serverErrors)[0].split('-')[0], 10);
+    if (!isNaN(firstStage)) {
+      setExpandedStage(firstStage);
+    }
+  }, [serverErrors]);
+
+  const addStage = () => {
+    const error = validateStageName(stages, newStageName);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+    setStages([...stages, createStage(newStageName.trim())]);
+    setNewStageName('');
+    setExpandedStage(stages.length);
+  };
+
+  const startRenamingStage = (stageIndex: number) => {
+    setRenamingStage(stageIndex);
+    setStageNameDraft(stages[stageIndex].name);
+  };
+
+  const renameStage = (stageIndex: number) => {
+    const error = validateStageName(stages, stageNameDraft, stageIndex);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+    const updatedStages = [...stages];
+    updatedStages[stageIndex] = { ...updatedStages[stageIndex], name: stageNameDraft.trim() };
+    setStages(updatedStages);
+    setRenamingStage(null);
+  };
+
+  const moveStage = (stageIndex: number, direction: -1 | 1) => {
+    const updatedStages = reorderStages(stages, stageIndex, direction);
+    if (updatedStages === stages) {
+      return;
+    }
+    const targetIndex = stageIndex + direction;
+    setStages(updatedStages);
+
+    // Validation errors are keyed by index, so they no longer line up
+    setValidationErrors({});
+    if (expandedStage === stageIndex) {
+      setExpandedStage(targetIndex);
+    } else if (expandedStage === targetIndex) {
+      setExpandedStage(stageIndex);
+    }
+  };
+
+  const deleteStage = (stageIndex: number) => {
+    const remove = () => {
+      setStages(stages.filter((_, index) => index !== stageIndex));
+      setValidationErrors({});
+      setExpandedStage(null);
+      setRenamingStage(null);
+    };
+
+    const medicationCount = stages[stageIndex].medications.length;
+    if (medicationCount === 0) {
+      remove();
+      return;
+    }
+
+    Alert.alert(
+      'Remove Stage',
+      `Remove the ${stages[stageIndex].name} stage and its ${medicationCount} medication${medicationCount !== 1 ? 's' : ''}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: remove },
+      ]
+    );
+  };
 
   const addMedicationToStage = (stageIndex: number) => {
     const newMedication: PartialMedication = {
@@ -51,17 +182,10 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
 
   const updateMedication = (stageIndex: number, medIndex: number, field: keyof PartialMedication, value: any) => {
     const updatedStages = [...stages];
-    
-    // Ensure numeric values are positive
-    if (field === 'quantityMg' || field === 'intervalHours' || field === 'totalDays') {
-      const numValue = parseInt(value) || 0;
-      if (numValue < 0) {
-        value = 0; // Prevent negative values
-      }
-    }
-    
     updatedStages[stageIndex].medications[medIndex] = {
       ...updatedStages[stageIndex].medications[medIndex],
+      // A typed name no longer refers to the drug picked from the formulary
+      ...(field === 'name' ? { formularyId: null } : {}),
       [field]: value
     };
     setStages(updatedStages);
@@ -75,6 +199,23 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
     }
   };
 
+  // Picking a formulary drug fills in its most common strength and usual interval
+  const selectFormularyEntry = (stageIndex: number, medIndex: number, entry: FormularyEntry) => {
+    const updatedStages = [...stages];
+    updatedStages[stageIndex].medications[medIndex] = {
+      ...updatedStages[stageIndex].medications[medIndex],
+      name: entry.name,
+      formularyId: entry.id,
+      quantityMg: entry.strengthsMg[0],
+      intervalHours: entry.defaultIntervalHours,
+    };
+    setStages(updatedStages);
+
+    const newErrors = { ...validationErrors };
+    ['name', 'quantityMg', 'intervalHours'].forEach(field => delete newErrors[`${stageIndex}-${medIndex}-${field}`]);
+    setValidationErrors(newErrors);
+  };
+
   const removeMedication = (stageIndex: number, medIndex: number) => {
     Alert.alert(
       'Remove Medication',
@@ -140,6 +281,13 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
       isValid = false;
     }
 
+    // Block daily totals above the highest amount ever prescribed
+    const doseCheck = checkDailyDose(medication);
+    if (doseCheck.status === 'aboveAbsolute' && !errors[`${stageIndex}-${medIndex}-quantityMg`]) {
+      errors[`${stageIndex}-${medIndex}-quantityMg`] = 'Daily total is over the maximum';
+      isValid = false;
+    }
+
     // Update validation errors
     setValidationErrors(prev => ({ ...prev, ...errors }));
     return isValid;
@@ -172,7 +320,33 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
       return; // Don't proceed if validation failed
     }
 
-    onSave(stages);
+    // Pass stages on in the order the user arranged them
+    const save = () => onSave(stages.map(({ name, medications }) => ({ name, medications })));
+
+    // Daily totals above the usual maximum and clashes with other medications are allowed,
+    // but only once the user confirms them
+    const warnings = [
+      ...stages.flatMap(stage =>
+        stage.medications
+          .map(medication => describeDoseCheck(checkDailyDose(medication)))
+          .filter((warning): warning is string => warning !== null)
+          .map(warning => `${stage.name}: ${warning}`)
+      ),
+      ...medicationWarnings.map(warning => warning.title),
+    ];
+    if (warnings.length > 0) {
+      Alert.alert(
+        'Check Doses',
+        `${warnings.join('\n')}\n\nOnly continue if a doctor or pharmacist told you to take this much.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', style: 'destructive', onPress: save },
+        ]
+      );
+      return;
+    }
+
+    save();
   };
 
   const hasAnyMedications = stages.some(stage => stage.medications.length > 0);
@@ -196,13 +370,13 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
         </TouchableOpacity>
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
         {/* Info Section */}
         <View style={styles.infoContainer}>
           <View style={styles.infoRow}>
             <Ionicons name="information-circle-outline" size={20} color="#007AFF" />
             <Text style={styles.infoText}>
-              Configure medications for Early, Mild, and Severe stages of your symptom
+              Add, rename and reorder the stages of your symptom, then add medications to each
             </Text>
           </View>
           <View style={styles.infoRow}>
@@ -213,25 +387,66 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
           </View>
         </View>
 
+        <MedicationWarnings warnings={medicationWarnings} />
+
         {/* Stages */}
         {stages.map((stage, stageIndex) => (
-          <View key={stage.name} style={styles.stageContainer}>
-            <TouchableOpacity 
-              style={styles.stageHeader} 
-              onPress={() => toggleStage(stageIndex)}
-            >
-              <View style={styles.stageHeaderContent}>
-                <Text style={styles.stageName}>{stage.name}</Text>
-                <Text style={styles.medicationCount}>
-                  {stage.medications.length} medication{stage.medications.length !== 1 ? 's' : ''}
-                </Text>
+          <View key={stage.key} style={styles.stageContainer}>
+            {renamingStage === stageIndex ? (
+              <View style={styles.stageHeader}>
+                <TextInput
+                  style={[styles.input, styles.stageNameInput]}
+                  value={stageNameDraft}
+                  onChangeText={setStageNameDraft}
+                  onSubmitEditing={() => renameStage(stageIndex)}
+                  autoFocus={true}
+                  autoCapitalize="words"
+                />
+                <TouchableOpacity onPress={() => renameStage(stageIndex)} style={styles.stageAction}>
+                  <Ionicons name="checkmark" size={20} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setRenamingStage(null)} style={styles.stageAction}>
+                  <Ionicons name="close" size={20} color="#666" />
+                </TouchableOpacity>
               </View>
-              <Ionicons 
-                name={expandedStage === stageIndex ? "chevron-up" : "chevron-down"} 
-                size={20} 
-                color="#666" 
-              />
-            </TouchableOpacity>
+            ) : (
+              <TouchableOpacity 
+                style={styles.stageHeader} 
+                onPress={() => toggleStage(stageIndex)}
+              >
+                <View style={styles.stageHeaderContent}>
+                  <Text style={styles.stageName}>{stage.name}</Text>
+                  <Text style={styles.medicationCount}>
+                    {stage.medications.length} medication{stage.medications.length !== 1 ? 's' : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => moveStage(stageIndex, -1)}
+                  style={styles.stageAction}
+                  disabled={stageIndex === 0}
+                >
+                  <Ionicons name="arrow-up" size={18} color={stageIndex === 0 ? '#ccc' : '#666'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => moveStage(stageIndex, 1)}
+                  style={styles.stageAction}
+                  disabled={stageIndex === stages.length - 1}
+                >
+                  <Ionicons name="arrow-down" size={18} color={stageIndex === stages.length - 1 ? '#ccc' : '#666'} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => startRenamingStage(stageIndex)} style={styles.stageAction}>
+                  <Ionicons name="create-outline" size={18} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => deleteStage(stageIndex)} style={styles.stageAction}>
+                  <Ionicons name="trash-outline" size={18} color="#ff3b30" />
+                </TouchableOpacity>
+                <Ionicons 
+                  name={expandedStage === stageIndex ? "chevron-up" : "chevron-down"} 
+                  size={20} 
+                  color="#666" 
+                />
+              </TouchableOpacity>
+            )}
 
             {expandedStage === stageIndex && (
               <View style={styles.stageContent}>
@@ -260,15 +475,15 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
                     {/* Medication Name */}
                     <View style={styles.inputContainer}>
                       <Text style={styles.label}>Medication Name *</Text>
-                      <TextInput
+                      <MedicationNameInput
                         style={[
                           styles.input,
                           getValidationError(stageIndex, medIndex, 'name') && styles.inputError
                         ]}
                         value={medication.name}
+                        formularyId={medication.formularyId}
                         onChangeText={(value) => updateMedication(stageIndex, medIndex, 'name', value)}
-                        placeholder="e.g., Ibuprofen, Paracetamol"
-                        placeholderTextColor="#999"
+                        onSelect={(entry) => selectFormularyEntry(stageIndex, medIndex, entry)}
                       />
                       {getValidationError(stageIndex, medIndex, 'name') && (
                         <Text style={styles.errorText}>{getValidationError(stageIndex, medIndex, 'name')}</Text>
@@ -285,7 +500,7 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
                             getValidationError(stageIndex, medIndex, 'quantityMg') && styles.inputError
                           ]}
                           value={medication.quantityMg?.toString() || ''}
-                          onChangeText={(value) => updateMedication(stageIndex, medIndex, 'quantityMg', parseInt(value) || 0)}
+                          onChangeText={(value) => updateMedication(stageIndex, medIndex, 'quantityMg', parseWholeNumber(value) ?? 0)}
                           placeholder="400"
                           placeholderTextColor="#999"
                           keyboardType="numeric"
@@ -293,6 +508,11 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
                         {getValidationError(stageIndex, medIndex, 'quantityMg') && (
                           <Text style={styles.errorText}>{getValidationError(stageIndex, medIndex, 'quantityMg')}</Text>
                         )}
+                        <StrengthOptions
+                          formularyId={medication.formularyId}
+                          selectedMg={medication.quantityMg}
+                          onSelect={(mg) => updateMedication(stageIndex, medIndex, 'quantityMg', mg)}
+                        />
                       </View>
                       <View style={[styles.inputContainer, styles.halfWidth]}>
                         <Text style={styles.label}>Interval (hours) *</Text>
@@ -302,7 +522,7 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
                             getValidationError(stageIndex, medIndex, 'intervalHours') && styles.inputError
                           ]}
                           value={medication.intervalHours?.toString() || ''}
-                          onChangeText={(value) => updateMedication(stageIndex, medIndex, 'intervalHours', parseInt(value) || 0)}
+                          onChangeText={(value) => updateMedication(stageIndex, medIndex, 'intervalHours', parseWholeNumber(value) ?? 0)}
                           placeholder="8"
                           placeholderTextColor="#999"
                           keyboardType="numeric"
@@ -312,6 +532,9 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
                         )}
                       </View>
                     </View>
+                    <View style={styles.doseSummary}>
+                      <DailyDoseSummary check={checkDailyDose(medication)} />
+                    </View>
 
                     {/* Duration */}
                     <View style={styles.inputContainer}>
@@ -322,7 +545,7 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
                           getValidationError(stageIndex, medIndex, 'totalDays') && styles.inputError
                         ]}
                         value={medication.totalDays?.toString() || ''}
-                        onChangeText={(value) => updateMedication(stageIndex, medIndex, 'totalDays', parseInt(value) || 0)}
+                        onChangeText={(value) => updateMedication(stageIndex, medIndex, 'totalDays', parseWholeNumber(value) ?? 0)}
                         placeholder="5"
                         placeholderTextColor="#999"
                         keyboardType="numeric"
@@ -337,6 +560,26 @@ export default function SymptomForm({ symptomName, onSave, onCancel }: SymptomFo
             )}
           </View>
         ))}
+
+        {/* Add Stage */}
+        <View style={styles.addStageContainer}>
+          <TextInput
+            style={[styles.input, styles.stageNameInput]}
+            value={newStageName}
+            onChangeText={setNewStageName}
+            onSubmitEditing={addStage}
+            placeholder="New stage, e.g., Flare, Maintenance, Taper"
+            placeholderTextColor="#999"
+            autoCapitalize="words"
+          />
+          <TouchableOpacity
+            style={[styles.addStageButton, !newStageName.trim() && styles.addStageButtonDisabled]}
+            onPress={addStage}
+            disabled={!newStageName.trim()}
+          >
+            <Ionicons name="add" size={22} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
       </ScrollView>
     </View>
   );
@@ -435,6 +678,30 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666666',
   },
+  stageAction: {
+    padding: 6,
+    marginRight: 2,
+  },
+  stageNameInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  addStageContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  addStageButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addStageButtonDisabled: {
+    backgroundColor: '#cccccc',
+  },
   stageContent: {
     padding: 16,
   },
@@ -505,6 +772,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  doseSummary: {
+    marginTop: -4,
+    marginBottom: 12,
+  },
   helperText: {
     fontSize: 12,
     color: '#999999',
@@ -516,3 +787,5 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
 });
+
+export type { StageData };
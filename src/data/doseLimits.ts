@@ -0,0 +1,32 @@
+// src/data/doseLimits.ts
+
+// Daily maximums for adults, in mg per 24 hours. `usualMaxMg` is the usual
+// over-the-counter ceiling; going above it needs a doctor's instruction.
+// `absoluteMaxMg` is the highest daily amount prescribed at all.
+interface DoseLimit {
+  name: string;
+  aliases: string[];
+  usualMaxMg: number;
+  absoluteMaxMg: number;
+}
+
+export const DOSE_LIMITS: DoseLimit[] = [
+  { name: 'Paracetamol', aliases: ['acetaminophen', 'tylenol', 'panadol'], usualMaxMg: 3000, absoluteMaxMg: 4000 },
+  { name: 'Ibuprofen', aliases: ['advil', 'nurofen', 'motrin'], usualMaxMg: 1200, absoluteMaxMg: 3200 },
+  { name: 'Aspirin', aliases: ['acetylsalicylic acid'], usualMaxMg: 3000, absoluteMaxMg: 4000 },
+  { name: 'Naproxen', aliases: ['aleve', 'naproxen sodium'], usualMaxMg: 660, absoluteMaxMg: 1500 },
+  { name: 'Diclofenac', aliases: ['voltaren'], usualMaxMg: 100, absoluteMaxMg: 150 },
+  { name: 'Codeine', aliases: [], usualMaxMg: 240, absoluteMaxMg: 240 },
+  { name: 'Tramadol', aliases: ['ultram'], usualMaxMg: 300, absoluteMaxMg: 400 },
+  { name: 'Sumatriptan', aliases: ['imitrex', 'imigran'], usualMaxMg: 200, absoluteMaxMg: 200 },
+  { name: 'Cetirizine', aliases: ['zyrtec'], usualMaxMg: 10, absoluteMaxMg: 20 },
+  { name: 'Loratadine', aliases: ['claritin'], usualMaxMg: 10, absoluteMaxMg: 10 },
+  { name: 'Fexofenadine', aliases: ['allegra', 'telfast'], usualMaxMg: 180, absoluteMaxMg: 180 },
+  { name: 'Diphenhydramine', aliases: ['benadryl'], usualMaxMg: 300, absoluteMaxMg: 300 },
+  { name: 'Omeprazole', aliases: ['prilosec'], usualMaxMg: 40, absoluteMaxMg: 120 },
+  { name: 'Amoxicillin', aliases: [], usualMaxMg: 1500, absoluteMaxMg: 3000 },
+  { name: 'Metformin', aliases: ['glucophage'], usualMaxMg: 2000, absoluteMaxMg: 2550 },
+  { name: 'Prednisolone', aliases: [], usualMaxMg: 60, absoluteMaxMg: 80 },
+];
+
+export type { DoseLimit };
@@ -0,0 +1,39 @@
+// src/data/formulary.ts
+
+// A drug as it is stored with a Medication. `id` is the canonical identifier and
+// never changes; `name` matches the dose limit and ingredient tables. The first
+// strength taken at the default interval stays within the usual daily maximum.
+interface FormularyEntry {
+  id: string;
+  name: string;
+  aliases: string[]; // brand and other names people search for
+  strengthsMg: number[]; // common strengths, most usual first
+  defaultIntervalHours: number;
+}
+
+export const FORMULARY: FormularyEntry[] = [
+  { id: 'paracetamol', name: 'Paracetamol', aliases: ['Acetaminophen', 'Tylenol', 'Panadol'], strengthsMg: [500, 1000], defaultIntervalHours: 6 },
+  { id: 'ibuprofen', name: 'Ibuprofen', aliases: ['Advil', 'Nurofen', 'Motrin'], strengthsMg: [400, 200, 600], defaultIntervalHours: 8 },
+  { id: 'aspirin', name: 'Aspirin', aliases: ['Acetylsalicylic acid'], strengthsMg: [300, 75], defaultIntervalHours: 6 },
+  { id: 'naproxen', name: 'Naproxen', aliases: ['Aleve', 'Naproxen sodium'], strengthsMg: [250, 220, 500], defaultIntervalHours: 12 },
+  { id: 'diclofenac', name: 'Diclofenac', aliases: ['Voltaren'], strengthsMg: [50, 25], defaultIntervalHours: 12 },
+  { id: 'codeine', name: 'Codeine', aliases: [], strengthsMg: [30, 15], defaultIntervalHours: 6 },
+  { id: 'tramadol', name: 'Tramadol', aliases: ['Ultram'], strengthsMg: [50, 100], defaultIntervalHours: 6 },
+  { id: 'sumatriptan', name: 'Sumatriptan', aliases: ['Imitrex', 'Imigran'], strengthsMg: [50, 100], defaultIntervalHours: 12 },
+  { id: 'cetirizine', name: 'Cetirizine', aliases: ['Zyrtec'], strengthsMg: [10], defaultIntervalHours: 24 },
+  { id: 'loratadine', name: 'Loratadine', aliases: ['Claritin'], strengthsMg: [10], defaultIntervalHours: 24 },
+  { id: 'fexofenadine', name: 'Fexofenadine', aliases: ['Allegra', 'Telfast'], strengthsMg: [120, 180], defaultIntervalHours: 24 },
+  { id: 'diphenhydramine', name: 'Diphenhydramine', aliases: ['Benadryl'], strengthsMg: [25, 50], defaultIntervalHours: 6 },
+  { id: 'omeprazole', name: 'Omeprazole', aliases: ['Prilosec'], strengthsMg: [20, 40], defaultIntervalHours: 24 },
+  { id: 'amoxicillin', name: 'Amoxicillin', aliases: [], strengthsMg: [500, 250], defaultIntervalHours: 8 },
+  { id: 'metformin', name: 'Metformin', aliases: ['Glucophage'], strengthsMg: [500, 850, 1000], defaultIntervalHours: 12 },
+  { id: 'prednisolone', name: 'Prednisolone', aliases: [], strengthsMg: [5, 25], defaultIntervalHours: 24 },
+  // Combination products; strengths are the whole tablet
+  { id: 'co-codamol', name: 'Co-codamol', aliases: ['Paracetamol and codeine'], strengthsMg: [508, 530], defaultIntervalHours: 6 },
+  { id: 'tylenol-codeine', name: 'Tylenol with Codeine', aliases: ['Tylenol 3'], strengthsMg: [330], defaultIntervalHours: 6 },
+  { id: 'excedrin', name: 'Excedrin', aliases: ['Excedrin Migraine'], strengthsMg: [565], defaultIntervalHours: 6 },
+  { id: 'nuromol', name: 'Nuromol', aliases: ['Ibuprofen and paracetamol'], strengthsMg: [700], defaultIntervalHours: 8 },
+  { id: 'lemsip', name: 'Lemsip', aliases: ['Lemsip Max'], strengthsMg: [1012], defaultIntervalHours: 8 },
+];
+
+export type { FormularyEntry };
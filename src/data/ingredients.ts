@@ -0,0 +1,80 @@
+// src/data/ingredients.ts
+
+// Products with more than one active ingredient. Strengths are per tablet and
+// only used to split an entered dosage between the ingredients.
+interface CombinationProduct {
+  name: string;
+  aliases: string[];
+  ingredients: { name: string; strengthMg: number }[];
+}
+
+// Ingredients that work the same way, so taking two of them at once doubles up
+interface IngredientClass {
+  name: string;
+  ingredients: string[];
+  warning: string;
+}
+
+export const COMBINATION_PRODUCTS: CombinationProduct[] = [
+  {
+    name: 'Co-codamol',
+    aliases: ['paracetamol and codeine'],
+    ingredients: [
+      { name: 'Paracetamol', strengthMg: 500 },
+      { name: 'Codeine', strengthMg: 8 },
+    ],
+  },
+  {
+    name: 'Tylenol with Codeine',
+    aliases: ['tylenol 3'],
+    ingredients: [
+      { name: 'Paracetamol', strengthMg: 300 },
+      { name: 'Codeine', strengthMg: 30 },
+    ],
+  },
+  {
+    name: 'Excedrin',
+    aliases: ['excedrin migraine'],
+    ingredients: [
+      { name: 'Paracetamol', strengthMg: 250 },
+      { name: 'Aspirin', strengthMg: 250 },
+      { name: 'Caffeine', strengthMg: 65 },
+    ],
+  },
+  {
+    name: 'Nuromol',
+    aliases: ['ibuprofen and paracetamol'],
+    ingredients: [
+      { name: 'Ibuprofen', strengthMg: 200 },
+      { name: 'Paracetamol', strengthMg: 500 },
+    ],
+  },
+  {
+    name: 'Lemsip',
+    aliases: ['lemsip max'],
+    ingredients: [
+      { name: 'Paracetamol', strengthMg: 1000 },
+      { name: 'Phenylephrine', strengthMg: 12 },
+    ],
+  },
+];
+
+export const INGREDIENT_CLASSES: IngredientClass[] = [
+  {
+    name: 'NSAIDs',
+    ingredients: ['Ibuprofen', 'Naproxen', 'Aspirin', 'Diclofenac'],
+    warning: 'Taking two anti-inflammatory painkillers together raises the risk of stomach bleeding and kidney problems.',
+  },
+  {
+    name: 'Opioids',
+    ingredients: ['Codeine', 'Tramadol'],
+    warning: 'Taking two opioids together increases drowsiness and can slow breathing.',
+  },
+  {
+    name: 'Antihistamines',
+    ingredients: ['Cetirizine', 'Loratadine', 'Fexofenadine', 'Diphenhydramine'],
+    warning: 'Taking two antihistamines together adds side effects without more benefit.',
+  },
+];
+
+export type { CombinationProduct, IngredientClass };
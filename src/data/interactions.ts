@@ -0,0 +1,60 @@
+// src/data/interactions.ts
+
+type InteractionSeverity = 'moderate' | 'major';
+
+// Known interactions between two ingredients, in either order
+interface Interaction {
+  ingredients: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const INTERACTIONS: Interaction[] = [
+  {
+    ingredients: ['Ibuprofen', 'Aspirin'],
+    severity: 'major',
+    description: 'Ibuprofen can stop low-dose aspirin from protecting the heart, and together they raise the risk of stomach bleeding.',
+  },
+  {
+    ingredients: ['Tramadol', 'Sumatriptan'],
+    severity: 'major',
+    description: 'Together they can cause serotonin syndrome (agitation, fever, fast heartbeat).',
+  },
+  {
+    ingredients: ['Codeine', 'Diphenhydramine'],
+    severity: 'moderate',
+    description: 'Both cause drowsiness, which adds up when taken together.',
+  },
+  {
+    ingredients: ['Tramadol', 'Diphenhydramine'],
+    severity: 'moderate',
+    description: 'Both cause drowsiness, which adds up when taken together.',
+  },
+  {
+    ingredients: ['Prednisolone', 'Ibuprofen'],
+    severity: 'moderate',
+    description: 'Steroids and anti-inflammatory painkillers together raise the risk of stomach ulcers and bleeding.',
+  },
+  {
+    ingredients: ['Prednisolone', 'Naproxen'],
+    severity: 'moderate',
+    description: 'Steroids and anti-inflammatory painkillers together raise the risk of stomach ulcers and bleeding.',
+  },
+  {
+    ingredients: ['Prednisolone', 'Aspirin'],
+    severity: 'moderate',
+    description: 'Steroids and aspirin together raise the risk of stomach ulcers and bleeding.',
+  },
+  {
+    ingredients: ['Prednisolone', 'Diclofenac'],
+    severity: 'moderate',
+    description: 'Steroids and anti-inflammatory painkillers together raise the risk of stomach ulcers and bleeding.',
+  },
+  {
+    ingredients: ['Prednisolone', 'Metformin'],
+    severity: 'moderate',
+    description: 'Prednisolone raises blood sugar and can make metformin less effective.',
+  },
+];
+
+export type { Interaction, InteractionSeverity };
@@ -2,11 +2,20 @@ import React from 'react';
 import { createStackNavigator } from '@react-navigation/stack';
 import HomeScreen from '../screens/HomeScreen';
 import AddSymptomScreen from '../screens/AddSymptomScreen';
+import SymptomDetailScreen from '../screens/SymptomDetailScreen';
+import AddMedicationScreen from '../screens/AddMedicationScreen';
 
 // Define the parameter types for each screen
 export type HomeStackParamList = {
   Home: undefined;
   AddSymptom: undefined;
+  SymptomDetail: { symptomId: number };
+  AddMedication: {
+    stageId: number;
+    stageName: string;
+    symptomId: number;
+    symptomName: string;
+  };
 };
 
 const Stack = createStackNavigator<HomeStackParamList>();
@@ -26,6 +35,19 @@ const HomeStackNavigator = () => {
         name="AddSymptom" 
         component={AddSymptomScreen}
       />
+      <Stack.Screen 
+        name="SymptomDetail" 
+        component={SymptomDetailScreen}
+      />
+      <Stack.Screen 
+        name="AddMedication" 
+        component={AddMedicationScreen}
+        options={{
+          headerShown: true, // This screen has no header of its own
+          headerTitle: '',
+          headerBackTitle: 'Back',
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -6,11 +6,16 @@ import Ionicons from 'react-native-vector-icons/Ionicons';
 import HomeStackNavigator from './HomeStackNavigator';
 import ActiveMedsScreen from '../screens/ActiveMedsScreen';
 import CalendarScreen from '../screens/CalendarScreen';
+import AdherenceScreen from '../screens/AdherenceScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 
 
 const Tab = createBottomTabNavigator();
 
+const renderAdherenceIcon = ({ color, size }: { color: string; size: number }) => (
+  <Ionicons name="stats-chart-outline" size={size} color={color} />
+);
+
 export default function TabNavigator() {
   return (
     <NavigationContainer>
@@ -50,6 +55,11 @@ export default function TabNavigator() {
             ),
           }}
         />
+        <Tab.Screen
+          name="Adherence"
+          component={AdherenceScreen}
+          options={{ tabBarIcon: renderAdherenceIcon }}
+        />
         <Tab.Screen
           name="Settings"
           component={SettingsScreen}
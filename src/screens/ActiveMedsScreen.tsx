@@ -1,15 +1,361 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, SectionList, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useFocusEffect } from '@react-navigation/native';
+import { type Symptom, type Stage, type Medication, type Intake } from '../services/api';
+import { RequestCancelledError, describeApiError } from '../services/errors';
+import MedicationDoseCard from '../components/MedicationDoseCard';
+import MedicationWarnings from '../components/MedicationWarnings';
+import { checkMedications, collectActiveMedications } from '../utils/medicationChecks';
+import { snoozeDose, isSkipped } from '../services/doseActions';
+import { reminderScheduler } from '../services/reminders';
+import { createLogger } from '../services/logger';
+import {
+  selectError,
+  selectRegimen,
+  selectStatus,
+  selectSymptoms,
+  useSymptomActions,
+  useSymptomStore,
+} from '../store/SymptomStoreProvider';
+
+const log = createLogger('ActiveMeds');
+
+interface SymptomSection {
+  symptom: Symptom;
+  data: Stage[];
+}
+
+// Build one section per symptom of the regimen, keeping only stages that have medications
+const buildSections = (regimen: Symptom[]): SymptomSection[] =>
+  regimen
+    .map(symptom => ({
+      symptom,
+      data: (symptom.stages ?? []).filter(stage => (stage.medication ?? []).length > 0),
+    }))
+    .filter(section => section.data.length > 0);
 
 export default function ActiveMedsScreen() {
+  const store = useSymptomActions();
+  const symptoms = useSymptomStore(selectSymptoms);
+  const regimen = useSymptomStore(selectRegimen);
+  const status = useSymptomStore(selectStatus);
+  const loadError = useSymptomStore(selectError);
+  const [now, setNow] = useState(new Date());
+  const [busyMedicationId, setBusyMedicationId] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchSymptoms = React.useCallback(async (signal?: AbortSignal, forceRefresh = false) => {
+    try {
+      await store.load({ signal, forceRefresh });
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        return;
+      }
+      log.error('Failed to load medications', err);
+      if (forceRefresh) {
+        Alert.alert('Error', describeApiError(err, 'refresh your medications'));
+      }
+    }
+  }, [store]);
+
+  // Refresh the schedule whenever the tab comes into focus
+  useFocusEffect(
+    React.useCallback(() => {
+      // Leaving the screen cancels a load that is still in flight
+      const controller = new AbortController();
+      fetchSymptoms(controller.signal);
+      return () => controller.abort();
+    }, [fetchSymptoms])
+  );
+
+  // Recalculate the schedule whenever the symptoms change, e.g. from another tab
+  useEffect(() => setNow(new Date()), [symptoms]);
+
+  // Keep the "next dose" countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSymptoms(undefined, true);
+    setRefreshing(false);
+  };
+
+  // Run an intake write for one medication; the store shows it straight away
+  const runDoseAction = async (medication: Medication, action: () => Promise<unknown>, actionName: string) => {
+    try {
+      setBusyMedicationId(medication.id);
+      await action();
+    } catch (err) {
+      log.error(`Failed to update doses for medication ${medication.id}`, err);
+      Alert.alert('Error', describeApiError(err, actionName));
+    } finally {
+      setBusyMedicationId(null);
+    }
+  };
+
+  const handleTake = (medication: Medication, scheduledTime: Date) =>
+    runDoseAction(
+      medication,
+      () => store.logDose(medication, scheduledTime, true),
+      'log the dose'
+    );
+
+  const handleSkip = (medication: Medication, scheduledTime: Date) =>
+    runDoseAction(
+      medication,
+      () => store.logDose(medication, scheduledTime, false),
+      'skip the dose'
+    );
+
+  const handleSnooze = (medication: Medication, scheduledTime: Date) => {
+    snoozeDose(medication, scheduledTime);
+    setNow(new Date());
+    reminderScheduler.reschedule();
+  };
+
+  const handleEditIntake = (medication: Medication, intake: Intake) => {
+    const skipped = isSkipped(intake);
+    Alert.alert(
+      'Edit Dose',
+      `${medication.name} scheduled for ${new Date(intake.scheduledTime).toLocaleString()}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        skipped
+          ? {
+              text: 'Mark as Taken',
+              onPress: () =>
+                runDoseAction(
+                  medication,
+                  () => store.correctIntake(intake, new Date()),
+                  'update the dose'
+                ),
+            }
+          : {
+              text: 'Mark as Skipped',
+              onPress: () =>
+                runDoseAction(
+                  medication,
+                  () => store.correctIntake(intake, null),
+                  'update the dose'
+                ),
+            },
+        {
+          text: 'Undo',
+          style: 'destructive',
+          onPress: () =>
+            runDoseAction(
+              medication,
+              () => store.undoIntake(intake),
+              'undo the dose'
+            ),
+        },
+      ]
+    );
+  };
+
+  // Only the current stage of each symptom is due
+  const sections = useMemo(() => buildSections(regimen), [regimen]);
+  // Clashes between the medications that are due, not those of earlier or later stages
+  const warnings = useMemo(() => checkMedications(collectActiveMedications(regimen)), [regimen]);
+
+  const renderStage = ({ item }: { item: Stage }) => (
+    <View style={styles.stageContainer}>
+      <Text style={styles.stageName}>{item.name}</Text>
+      {item.medication.map(medication => (
+        <MedicationDoseCard
+          key={medication.id}
+          medication={medication}
+          now={now}
+          busy={busyMedicationId === medication.id}
+          onTake={handleTake}
+          onSkip={handleSkip}
+          onSnooze={handleSnooze}
+          onEditIntake={handleEditIntake}
+        />
+      ))}
+    </View>
+  );
+
+  const renderSectionHeader = ({ section }: { section: SymptomSection }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle}>{section.symptom.name}</Text>
+    </View>
+  );
+
+  if (status === 'idle' || status === 'loading') {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading medications...</Text>
+      </View>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>{describeApiError(loadError, 'load your medications')}</Text>
+        <Text style={styles.retryText} onPress={() => fetchSymptoms()}>
+          Tap to retry
+        </Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
-      <Text style={styles.text}>Active Medications</Text>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <Text style={styles.title}>Active Meds</Text>
+          <Text style={styles.subtitle}>Your dose schedule</Text>
+        </View>
+        <TouchableOpacity style={styles.refreshButton} onPress={handleRefresh}>
+          <Ionicons name="refresh" size={20} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {sections.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No active medications</Text>
+          <Text style={styles.emptySubtext}>
+            Mark a symptom as active on the Home tab to see its dose schedule
+          </Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          renderItem={renderStage}
+          renderSectionHeader={renderSectionHeader}
+          keyExtractor={item => item.id.toString()}
+          contentContainerStyle={styles.listContainer}
+          stickySectionHeadersEnabled={false}
+          showsVerticalScrollIndicator={false}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          ListHeaderComponent={
+            warnings.length > 0 ? (
+              <View style={styles.warnings}>
+                <MedicationWarnings warnings={warnings} />
+              </View>
+            ) : null
+          }
+        />
+      )}
     </View>
   );
 }
 
 const styles = StyleSheet.create({
-  container: { flex: 1, justifyContent: 'center', alignItems: 'center' },
-  text: { fontSize: 30 },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  refreshButton: {
+    padding: 8,
+  },
+  listContainer: {
+    paddingVertical: 8,
+  },
+  warnings: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  sectionHeader: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  stageContainer: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 4,
+    marginHorizontal: 16,
+  },
+  stageName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#ff3b30',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryText: {
+    fontSize: 16,
+    color: '#007AFF',
+    textDecorationLine: 'underline',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
 });
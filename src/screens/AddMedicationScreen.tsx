@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,8 +10,22 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { apiService, PartialMedication } from '../services/api';
 import { HomeStackParamList } from '../navigation/HomeStackNavigator';
+import { describeApiError } from '../services/errors';
+import { createLogger } from '../services/logger';
+import { checkDailyDose, describeDoseCheck, parseWholeNumber } from '../utils/doseSafety';
+import DailyDoseSummary from '../components/DailyDoseSummary';
+import MedicationWarnings from '../components/MedicationWarnings';
+import { checkNewMedications, collectActiveMedications } from '../utils/medicationChecks';
+import { selectSymptoms, useSymptomStore } from '../store/SymptomStoreProvider';
+import MedicationNameInput from '../components/MedicationNameInput';
+import StrengthOptions from '../components/StrengthOptions';
+import type { FormularyEntry } from '../data/formulary';
+import { matchFormulary } from '../utils/formulary';
+
+const log = createLogger('AddMedication');
 
 type AddMedicationScreenNavigationProp = StackNavigationProp<HomeStackParamList, 'AddMedication'>;
 type AddMedicationScreenRouteProp = RouteProp<HomeStackParamList, 'AddMedication'>;
@@ -25,39 +39,33 @@ const AddMedicationScreen: React.FC<AddMedicationScreenProps> = ({ navigation, r
   const { stageId, stageName, symptomId, symptomName } = route.params;
   
   const [name, setName] = useState('');
+  const [formularyId, setFormularyId] = useState<string | null>(null);
   const [intervalHours, setIntervalHours] = useState('8');
   const [totalDays, setTotalDays] = useState('5');
   const [quantityMg, setQuantityMg] = useState('400');
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSave = async () => {
-    if (!name.trim()) {
-      Alert.alert('Error', 'Please enter a medication name');
-      return;
-    }
+  const symptoms = useSymptomStore(selectSymptoms);
+  const activeMedications = useMemo(() => collectActiveMedications(symptoms), [symptoms]);
 
-    if (!intervalHours || !totalDays || !quantityMg) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
-    }
+  const dose = {
+    name,
+    formularyId,
+    quantityMg: parseWholeNumber(quantityMg) ?? 0,
+    intervalHours: parseWholeNumber(intervalHours) ?? 0,
+  };
+  const doseCheck = checkDailyDose(dose);
+  const medicationWarnings = checkNewMedications(activeMedications, [
+    { ...dose, symptomKey: `${symptomId}`, stageKey: `${stageId}`, symptomName, stageName },
+  ]);
 
+  const saveMedication = async (medicationData: PartialMedication) => {
     setIsLoading(true);
     try {
-      const medicationData: PartialMedication = {
-        name: name.trim(),
-        intervalHours: parseInt(intervalHours),
-        totalDays: parseInt(totalDays),
-        quantityMg: parseInt(quantityMg),
-        treatmentId: symptomId, // This is the symptom ID
-        stageId: stageId,
-        stage: null,
-        intakes: null,
-      };
-
-      console.log('Creating medication with data:', medicationData);
+      log.debug('Creating medication', medicationData);
       const newMedication = await apiService.createMedication(medicationData);
       
-      console.log('Medication created successfully:', newMedication);
+      log.debug(`Created medication ${newMedication.id}`);
       Alert.alert(
         'Success', 
         'Medication added successfully!',
@@ -69,15 +77,82 @@ const AddMedicationScreen: React.FC<AddMedicationScreenProps> = ({ navigation, r
         ]
       );
     } catch (error) {
-      console.error('Error creating medication:', error);
-      Alert.alert('Error', `Failed to create medication: ${error}`);
+      log.error('Failed to create medication', error);
+      Alert.alert('Error', describeApiError(error, 'add the medication'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // A typed name no longer refers to the drug picked from the formulary
+  const handleNameChange = (text: string) => {
+    setName(text);
+    setFormularyId(null);
+  };
+
+  // Picking a formulary drug fills in its most common strength and usual interval
+  const handleSelectEntry = (entry: FormularyEntry) => {
+    setName(entry.name);
+    setFormularyId(entry.id);
+    setQuantityMg(entry.strengthsMg[0].toString());
+    setIntervalHours(entry.defaultIntervalHours.toString());
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a medication name');
+      return;
+    }
+
+    const parsedQuantity = parseWholeNumber(quantityMg);
+    const parsedInterval = parseWholeNumber(intervalHours);
+    const parsedDays = parseWholeNumber(totalDays);
+    if (!parsedQuantity || !parsedInterval || !parsedDays) {
+      Alert.alert('Error', 'Dosage, interval and duration must be whole numbers greater than 0');
+      return;
+    }
+
+    const medicationData: PartialMedication = {
+      name: name.trim(),
+      // Names typed without picking a suggestion are linked when they match the formulary
+      formularyId: formularyId ?? matchFormulary(name)?.id ?? null,
+      intervalHours: parsedInterval,
+      totalDays: parsedDays,
+      quantityMg: parsedQuantity,
+      treatmentId: symptomId, // This is the symptom ID
+      stageId: stageId,
+      stage: null,
+      intakes: null,
+    };
+
+    // Above the highest prescribed amount is never saved
+    const warning = describeDoseCheck(doseCheck);
+    if (doseCheck.status === 'aboveAbsolute') {
+      Alert.alert('Dose Too High', `${warning}. Please lower the dosage or take doses less often.`);
+      return;
+    }
+    // Daily totals above the usual maximum and clashes with other medications need confirming
+    const warnings = [
+      ...(doseCheck.status === 'aboveUsual' ? [warning] : []),
+      ...medicationWarnings.map(medicationWarning => medicationWarning.title),
+    ];
+    if (warnings.length > 0) {
+      Alert.alert(
+        'Check Dose',
+        `${warnings.join('\n')}\n\nOnly continue if a doctor or pharmacist told you to take this.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', style: 'destructive', onPress: () => saveMedication(medicationData) },
+        ]
+      );
+      return;
+    }
+
+    saveMedication(medicationData);
+  };
+
   return (
-    <ScrollView style={styles.container}>
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
       <View style={styles.content}>
         <Text style={styles.title}>Add Medication</Text>
         <Text style={styles.subtitle}>
@@ -87,12 +162,13 @@ const AddMedicationScreen: React.FC<AddMedicationScreenProps> = ({ navigation, r
         {/* Medication Name Input */}
         <View style={styles.inputContainer}>
           <Text style={styles.label}>Medication Name *</Text>
-          <TextInput
+          <MedicationNameInput
             style={styles.input}
             value={name}
-            onChangeText={setName}
+            formularyId={formularyId}
+            onChangeText={handleNameChange}
+            onSelect={handleSelectEntry}
             placeholder="e.g., Ibuprofen, Paracetamol, Aspirin"
-            placeholderTextColor="#999"
           />
         </View>
 
@@ -107,6 +183,11 @@ const AddMedicationScreen: React.FC<AddMedicationScreenProps> = ({ navigation, r
             placeholderTextColor="#999"
             keyboardType="numeric"
           />
+          <StrengthOptions
+            formularyId={formularyId}
+            selectedMg={parseWholeNumber(quantityMg) ?? 0}
+            onSelect={mg => setQuantityMg(mg.toString())}
+          />
         </View>
 
         {/* Interval Input */}
@@ -145,8 +226,11 @@ const AddMedicationScreen: React.FC<AddMedicationScreenProps> = ({ navigation, r
             • Stage: {stageName}{'\n'}
             • Symptom: {symptomName}
           </Text>
+          <DailyDoseSummary check={doseCheck} />
         </View>
 
+        <MedicationWarnings warnings={medicationWarnings} />
+
         {/* Save Button */}
         <TouchableOpacity
           style={[styles.saveButton, isLoading && styles.saveButtonDisabled]}
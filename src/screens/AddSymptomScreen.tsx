@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -9,11 +9,18 @@ import {
   ScrollView,
   ActivityIndicator,
 } from 'react-native';
-import { apiService, type PartialSymptom, type PartialStage, type PartialMedication } from '../services/api';
+import { apiService, type PartialSymptom, type PartialStage } from '../services/api';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { HomeStackParamList } from '../navigation/HomeStackNavigator';
-import SymptomForm from '../components/SymptomForm';
+import SymptomForm, { type StageData } from '../components/SymptomForm';
+import { ValidationError, describeApiError, parseFieldPath } from '../services/errors';
+import { createLogger } from '../services/logger';
+import { selectSymptoms, useSymptomStore } from '../store/SymptomStoreProvider';
+import { collectActiveMedications } from '../utils/medicationChecks';
+import { matchFormulary } from '../utils/formulary';
+
+const log = createLogger('AddSymptom');
 
 type AddSymptomScreenNavigationProp = StackNavigationProp<HomeStackParamList, 'AddSymptom'>;
 
@@ -21,15 +28,13 @@ interface AddSymptomScreenProps {
   navigation: AddSymptomScreenNavigationProp;
 }
 
-interface StageData {
-  name: string;
-  medications: PartialMedication[];
-}
-
 export default function AddSymptomScreen({ navigation }: AddSymptomScreenProps) {
   const [symptomName, setSymptomName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showSymptomForm, setShowSymptomForm] = useState(false);
+  const [serverErrors, setServerErrors] = useState<{[key: string]: string}>({});
+  const symptoms = useSymptomStore(selectSymptoms);
+  const activeMedications = useMemo(() => collectActiveMedications(symptoms), [symptoms]);
 
   const handleNext = () => {
     if (!symptomName.trim()) {
@@ -41,14 +46,21 @@ export default function AddSymptomScreen({ navigation }: AddSymptomScreenProps)
 
   const handleSave = async (stages: StageData[]) => {
     setIsLoading(true);
+    // Position of each submitted stage in the form, so server errors can be mapped back
+    const formStageIndexes = stages
+      .map((stage, index) => (stage.medications.length > 0 ? index : -1))
+      .filter(index => index >= 0);
     try {
-      // Filter out stages with no medications and format exactly as your API expects
-      const apiStages = stages
-        .filter(stage => stage.medications.length > 0) // Only include stages with medications
+      // Filter out stages with no medications and format exactly as your API expects,
+      // keeping the stage order chosen in the form
+      const apiStages: PartialStage[] = formStageIndexes
+        .map(index => stages[index]) // Only include stages with medications
         .map(stage => ({
           name: stage.name,
           medication: stage.medications.map(med => ({
             name: med.name,
+            // Names typed without picking a suggestion are linked when they match the formulary
+            formularyId: med.formularyId ?? matchFormulary(med.name)?.id ?? null,
             quantityMg: med.quantityMg || 0,
             intervalHours: med.intervalHours || 8,
             totalDays: med.totalDays || 5
@@ -62,17 +74,17 @@ export default function AddSymptomScreen({ navigation }: AddSymptomScreenProps)
         return;
       }
 
-      const symptomData = {
+      const symptomData: PartialSymptom = {
         name: symptomName.trim(),
         isActive: true,
         stages: apiStages,
       };
 
-      console.log('Creating symptom with data:', symptomData);
+      log.debug('Creating symptom', symptomData);
       
       const newSymptom = await apiService.createSymptom(symptomData);
       
-      console.log('Symptom created successfully:', newSymptom);
+      log.debug(`Created symptom ${newSymptom.id}`);
       Alert.alert(
         'Success', 
         'Symptom added successfully!',
@@ -84,8 +96,11 @@ export default function AddSymptomScreen({ navigation }: AddSymptomScreenProps)
         ]
       );
     } catch (error) {
-      console.error('Error creating symptom:', error);
-      Alert.alert('Error', `Failed to create symptom: ${error}`);
+      log.error('Failed to create symptom', error);
+      if (error instanceof ValidationError) {
+        setServerErrors(mapFieldErrors(error, formStageIndexes));
+      }
+      Alert.alert('Error', describeApiError(error, 'create the symptom'));
     } finally {
       setIsLoading(false);
     }
@@ -116,6 +131,8 @@ export default function AddSymptomScreen({ navigation }: AddSymptomScreenProps)
         symptomName={symptomName}
         onSave={handleSave}
         onCancel={handleBackToName}
+        serverErrors={serverErrors}
+        activeMedications={activeMedications}
       />
     );
   }
@@ -182,6 +199,19 @@ export default function AddSymptomScreen({ navigation }: AddSymptomScreenProps)
   );
 }
 
+// Turns server field errors into SymptomForm error keys, using the first message for each field
+function mapFieldErrors(error: ValidationError, formStageIndexes: number[]): {[key: string]: string} {
+  const mapped: {[key: string]: string} = {};
+  Object.entries(error.fieldErrors).forEach(([path, messages]) => {
+    const { stageIndex, medIndex, field } = parseFieldPath(path);
+    if (stageIndex === null || medIndex === null || formStageIndexes[stageIndex] === undefined) {
+      return;
+    }
+    mapped[`${formStageIndexes[stageIndex]}-${medIndex}-${field}`] = messages[0];
+  });
+  return mapped;
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
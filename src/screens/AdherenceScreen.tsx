@@ -0,0 +1,485 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { RequestCancelledError, describeApiError } from '../services/errors';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../services/storage';
+import { createLogger } from '../services/logger';
+import AdherenceChart from '../components/AdherenceChart';
+import { addDays } from '../utils/calendar';
+import { formatDuration } from '../utils/doseSchedule';
+import {
+  DEFAULT_ON_TIME_WINDOW,
+  ON_TIME_WINDOW_OPTIONS,
+  collectAdherenceDoses,
+  filterDoses,
+  getDailyAdherence,
+  getStreaks,
+  groupAdherence,
+  summarizeAdherence,
+  type AdherenceGroup,
+  type DoseOutcome,
+} from '../utils/adherence';
+import {
+  selectCurrentStages,
+  selectError,
+  selectStatus,
+  selectSymptoms,
+  useSymptomActions,
+  useSymptomStore,
+} from '../store/SymptomStoreProvider';
+
+const log = createLogger('Adherence');
+
+const RANGE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'All', days: null },
+];
+
+// The daily chart stays readable up to about a month of bars
+const MAX_CHART_DAYS = 30;
+
+const OUTCOMES: { outcome: DoseOutcome; label: string; color: string }[] = [
+  { outcome: 'onTime', label: 'On time', color: '#34c759' },
+  { outcome: 'late', label: 'Late', color: '#ff9500' },
+  { outcome: 'early', label: 'Early', color: '#5ac8fa' },
+  { outcome: 'missed', label: 'Missed', color: '#ff3b30' },
+];
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${value}%`);
+
+export default function AdherenceScreen() {
+  const store = useSymptomActions();
+  const symptoms = useSymptomStore(selectSymptoms);
+  const currentStages = useSymptomStore(selectCurrentStages);
+  const status = useSymptomStore(selectStatus);
+  const loadError = useSymptomStore(selectError);
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+  const [symptomId, setSymptomId] = useState<number | null>(null);
+  const [medicationId, setMedicationId] = useState<number | null>(null);
+  const [windowMinutes, setWindowMinutes] = useState(DEFAULT_ON_TIME_WINDOW);
+  const [now, setNow] = useState(new Date());
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchSymptoms = React.useCallback(async (signal?: AbortSignal, forceRefresh = false) => {
+    try {
+      await store.load({ signal, forceRefresh });
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        return;
+      }
+      log.error('Failed to load adherence data', err);
+      if (forceRefresh) {
+        Alert.alert('Error', describeApiError(err, 'refresh your statistics'));
+      }
+    }
+  }, [store]);
+
+  // Reload whenever the tab comes into focus
+  useFocusEffect(
+    React.useCallback(() => {
+      // Leaving the screen cancels a load that is still in flight
+      const controller = new AbortController();
+      fetchSymptoms(controller.signal);
+      return () => controller.abort();
+    }, [fetchSymptoms])
+  );
+
+  useEffect(() => {
+    loadJSON(STORAGE_KEYS.ON_TIME_WINDOW, DEFAULT_ON_TIME_WINDOW).then(setWindowMinutes);
+  }, []);
+
+  // Recalculate whenever the symptoms change, e.g. after logging a dose on another tab
+  useEffect(() => setNow(new Date()), [symptoms]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSymptoms(undefined, true);
+    setRefreshing(false);
+  };
+
+  const handleSelectWindow = (minutes: number) => {
+    setWindowMinutes(minutes);
+    saveJSON(STORAGE_KEYS.ON_TIME_WINDOW, minutes);
+  };
+
+  const handleSelectSymptom = (id: number | null) => {
+    setSymptomId(id);
+    setMedicationId(null);
+  };
+
+  const allDoses = useMemo(() => collectAdherenceDoses(symptoms, currentStages, now), [symptoms, currentStages, now]);
+  // Whole days, counting today
+  const from = useMemo(
+    () => (rangeDays === null ? null : addDays(new Date(now.getFullYear(), now.getMonth(), now.getDate()), 1 - rangeDays)),
+    [rangeDays, now]
+  );
+
+  const doses = useMemo(
+    () => filterDoses(allDoses, { from, to: now, symptomId, medicationId }),
+    [allDoses, from, now, symptomId, medicationId]
+  );
+  const summary = useMemo(() => summarizeAdherence(doses, windowMinutes), [doses, windowMinutes]);
+  const streaks = useMemo(() => getStreaks(doses), [doses]);
+  const days = useMemo(() => {
+    const firstDose = doses[0]?.scheduledTime ?? now;
+    const chartStart = new Date(Math.max((from ?? firstDose).getTime(), addDays(now, 1 - MAX_CHART_DAYS).getTime()));
+    return getDailyAdherence(doses, chartStart, now);
+  }, [doses, from, now]);
+  const byMedication = useMemo(() => groupAdherence(doses, 'medication', windowMinutes), [doses, windowMinutes]);
+  const bySymptom = useMemo(() => groupAdherence(doses, 'symptom', windowMinutes), [doses, windowMinutes]);
+
+  // Medications to filter by, limited to the chosen symptom
+  const medications = useMemo(
+    () =>
+      symptoms
+        .filter(symptom => symptomId === null || symptom.id === symptomId)
+        .flatMap(symptom => symptom.stages.flatMap(stage => stage.medication)),
+    [symptoms, symptomId]
+  );
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string | number) => (
+    <TouchableOpacity key={key} style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderGroup = (group: AdherenceGroup) => (
+    <View key={group.id} style={styles.groupRow}>
+      <View style={styles.groupHeader}>
+        <Text style={styles.groupName} numberOfLines={1}>{group.name}</Text>
+        <Text style={styles.groupValue}>
+          {formatPercent(group.summary.takenPercent)} taken · {formatPercent(group.summary.onTimePercent)} on time
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.trackFill, { flex: group.summary.taken }]} />
+        <View style={{ flex: group.summary.missed }} />
+      </View>
+    </View>
+  );
+
+  if (status === 'idle' || status === 'loading') {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading statistics...</Text>
+      </View>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>{describeApiError(loadError, 'load your statistics')}</Text>
+        <Text style={styles.retryText} onPress={() => fetchSymptoms()}>
+          Tap to retry
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Adherence</Text>
+        <Text style={styles.subtitle}>How closely you follow your schedule</Text>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <Text style={styles.filterLabel}>Period</Text>
+        <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+          {RANGE_OPTIONS.map(option =>
+            renderChip(option.label, rangeDays === option.days, () => setRangeDays(option.days), option.label)
+          )}
+        </ScrollView>
+
+        <Text style={styles.filterLabel}>Symptom</Text>
+        <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+          {renderChip('All', symptomId === null, () => handleSelectSymptom(null), 'all')}
+          {symptoms.map(symptom =>
+            renderChip(symptom.name, symptomId === symptom.id, () => handleSelectSymptom(symptom.id), symptom.id)
+          )}
+        </ScrollView>
+
+        <Text style={styles.filterLabel}>Medication</Text>
+        <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+          {renderChip('All', medicationId === null, () => setMedicationId(null), 'all')}
+          {medications.map(medication =>
+            renderChip(
+              medication.name,
+              medicationId === medication.id,
+              () => setMedicationId(medication.id),
+              medication.id
+            )
+          )}
+        </ScrollView>
+
+        <Text style={styles.filterLabel}>On time means within</Text>
+        <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+          {ON_TIME_WINDOW_OPTIONS.map(minutes =>
+            renderChip(`±${formatDuration(minutes)}`, windowMinutes === minutes, () => handleSelectWindow(minutes), minutes)
+          )}
+        </ScrollView>
+
+        {summary.total === 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.emptyText}>No doses were due in this period</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <View style={styles.headlineRow}>
+                <View style={styles.headline}>
+                  <Text style={styles.headlineValue}>{formatPercent(summary.takenPercent)}</Text>
+                  <Text style={styles.headlineLabel}>taken</Text>
+                </View>
+                <View style={styles.headline}>
+                  <Text style={styles.headlineValue}>{formatPercent(summary.onTimePercent)}</Text>
+                  <Text style={styles.headlineLabel}>on time</Text>
+                </View>
+              </View>
+
+              <View style={styles.track}>
+                {OUTCOMES.map(({ outcome, color }) => (
+                  <View key={outcome} style={{ flex: summary[outcome], backgroundColor: color }} />
+                ))}
+              </View>
+              <View style={styles.legend}>
+                {OUTCOMES.filter(({ outcome }) => outcome !== 'early' || summary.early > 0).map(
+                  ({ outcome, label, color }) => (
+                    <View key={outcome} style={styles.legendItem}>
+                      <View style={[styles.legendDot, { backgroundColor: color }]} />
+                      <Text style={styles.legendText}>
+                        {label} {summary[outcome]}
+                      </Text>
+                    </View>
+                  )
+                )}
+              </View>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Streaks</Text>
+              <View style={styles.headlineRow}>
+                <View style={styles.headline}>
+                  <Text style={styles.headlineValue}>{streaks.current}</Text>
+                  <Text style={styles.headlineLabel}>day{streaks.current !== 1 ? 's' : ''} in a row now</Text>
+                </View>
+                <View style={styles.headline}>
+                  <Text style={styles.headlineValue}>{streaks.longest}</Text>
+                  <Text style={styles.headlineLabel}>longest</Text>
+                </View>
+              </View>
+              <Text style={styles.hint}>A day counts when every dose due that day was taken</Text>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Doses taken per day</Text>
+              <AdherenceChart days={days} />
+            </View>
+
+            {medicationId === null && byMedication.length > 1 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>By medication</Text>
+                {byMedication.map(renderGroup)}
+              </View>
+            )}
+
+            {symptomId === null && bySymptom.length > 1 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>By symptom</Text>
+                {bySymptom.map(renderGroup)}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  content: {
+    padding: 16,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666666',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  headlineRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  headline: {
+    flex: 1,
+  },
+  headlineValue: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  headlineLabel: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  track: {
+    flexDirection: 'row',
+    height: 10,
+    borderRadius: 5,
+    overflow: 'hidden',
+    backgroundColor: '#f0f0f0',
+  },
+  trackFill: {
+    backgroundColor: '#34c759',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+    marginBottom: 4,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999999',
+  },
+  groupRow: {
+    marginBottom: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  groupName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333333',
+    marginRight: 8,
+  },
+  groupValue: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#ff3b30',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryText: {
+    fontSize: 16,
+    color: '#007AFF',
+    textDecorationLine: 'underline',
+  },
+});
@@ -1,15 +1,454 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useFocusEffect } from '@react-navigation/native';
+import { RequestCancelledError, describeApiError } from '../services/errors';
+import DoseListItem from '../components/DoseListItem';
+import {
+  addDays,
+  buildDoseCalendar,
+  getDayStatus,
+  getMonthGrid,
+  getWeekDays,
+  isSameDay,
+  toDateKey,
+  type CalendarDose,
+  type DayStatus,
+} from '../utils/calendar';
+import { createLogger } from '../services/logger';
+import {
+  selectCurrentStages,
+  selectError,
+  selectStatus,
+  selectSymptoms,
+  useSymptomActions,
+  useSymptomStore,
+} from '../store/SymptomStoreProvider';
+
+const log = createLogger('Calendar');
+
+type ViewMode = 'month' | 'week';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_STATUS_COLORS: Record<DayStatus, string> = {
+  taken: '#34c759',
+  partial: '#ff9500',
+  missed: '#ff3b30',
+  upcoming: '#007AFF',
+  none: 'transparent',
+};
 
 export default function CalendarScreen() {
+  const store = useSymptomActions();
+  const symptoms = useSymptomStore(selectSymptoms);
+  const currentStages = useSymptomStore(selectCurrentStages);
+  const loadStatus = useSymptomStore(selectStatus);
+  const loadError = useSymptomStore(selectError);
+  const [viewMode, setViewMode] = useState<ViewMode>('month');
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [now, setNow] = useState(new Date());
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchSymptoms = React.useCallback(async (signal?: AbortSignal, forceRefresh = false) => {
+    try {
+      await store.load({ signal, forceRefresh });
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        return;
+      }
+      log.error('Failed to load calendar doses', err);
+      if (forceRefresh) {
+        Alert.alert('Error', describeApiError(err, 'refresh your calendar'));
+      }
+    }
+  }, [store]);
+
+  // Reload doses whenever the tab comes into focus
+  useFocusEffect(
+    React.useCallback(() => {
+      // Leaving the screen cancels a load that is still in flight
+      const controller = new AbortController();
+      fetchSymptoms(controller.signal);
+      return () => controller.abort();
+    }, [fetchSymptoms])
+  );
+
+  // Recalculate the calendar whenever the symptoms or stages change, e.g. from another tab
+  useEffect(() => setNow(new Date()), [symptoms, currentStages]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSymptoms(undefined, true);
+    setRefreshing(false);
+  };
+
+  const doseCalendar = useMemo(
+    () => buildDoseCalendar(symptoms, now, currentStages),
+    [symptoms, now, currentStages]
+  );
+
+  const getDoses = (date: Date): CalendarDose[] => doseCalendar.get(toDateKey(date)) ?? [];
+
+  const handlePrevious = () => {
+    if (viewMode === 'month') {
+      setSelectedDate(new Date(selectedDate.getFullYear(), selectedDate.getMonth() - 1, 1));
+    } else {
+      setSelectedDate(addDays(selectedDate, -7));
+    }
+  };
+
+  const handleNext = () => {
+    if (viewMode === 'month') {
+      setSelectedDate(new Date(selectedDate.getFullYear(), selectedDate.getMonth() + 1, 1));
+    } else {
+      setSelectedDate(addDays(selectedDate, 7));
+    }
+  };
+
+  const periodTitle = () => {
+    if (viewMode === 'month') {
+      return selectedDate.toLocaleDateString([], { month: 'long', year: 'numeric' });
+    }
+    const week = getWeekDays(selectedDate);
+    const format = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+    return `${format(week[0])} – ${format(week[6])}`;
+  };
+
+  const renderDayCell = (date: Date) => {
+    const inMonth = date.getMonth() === selectedDate.getMonth();
+    const isSelected = isSameDay(date, selectedDate);
+    const isToday = isSameDay(date, now);
+    const status = getDayStatus(getDoses(date));
+
+    return (
+      <TouchableOpacity
+        key={toDateKey(date)}
+        style={[styles.dayCell, isSelected && styles.dayCellSelected]}
+        onPress={() => setSelectedDate(date)}
+      >
+        <Text
+          style={[
+            styles.dayNumber,
+            !inMonth && styles.dayNumberOutside,
+            isToday && styles.dayNumberToday,
+            isSelected && styles.dayNumberSelected,
+          ]}
+        >
+          {date.getDate()}
+        </Text>
+        <View style={[styles.statusDot, { backgroundColor: DAY_STATUS_COLORS[status] }]} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDoseList = (doses: CalendarDose[]) =>
+    doses.length === 0 ? (
+      <Text style={styles.noDosesText}>No doses scheduled</Text>
+    ) : (
+      doses.map(dose => (
+        <DoseListItem key={`${dose.medication.id}-${dose.time.getTime()}`} dose={dose} />
+      ))
+    );
+
+  const renderMonth = () => (
+    <>
+      <View style={styles.calendarCard}>
+        <View style={styles.weekRow}>
+          {WEEKDAY_LABELS.map(label => (
+            <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+          ))}
+        </View>
+        {getMonthGrid(selectedDate.getFullYear(), selectedDate.getMonth()).map(week => (
+          <View key={toDateKey(week[0])} style={styles.weekRow}>
+            {week.map(renderDayCell)}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.dayCard}>
+        <Text style={styles.dayTitle}>
+          {selectedDate.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}
+        </Text>
+        {renderDoseList(getDoses(selectedDate))}
+      </View>
+    </>
+  );
+
+  const renderWeek = () =>
+    getWeekDays(selectedDate).map(date => (
+      <View key={toDateKey(date)} style={styles.dayCard}>
+        <View style={styles.agendaHeader}>
+          <Text style={[styles.dayTitle, isSameDay(date, now) && styles.dayNumberToday]}>
+            {date.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })}
+          </Text>
+          <View style={[styles.statusDot, { backgroundColor: DAY_STATUS_COLORS[getDayStatus(getDoses(date))] }]} />
+        </View>
+        {renderDoseList(getDoses(date))}
+      </View>
+    ));
+
+  if (loadStatus === 'idle' || loadStatus === 'loading') {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading calendar...</Text>
+      </View>
+    );
+  }
+
+  if (loadStatus === 'error') {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>{describeApiError(loadError, 'load your calendar')}</Text>
+        <Text style={styles.retryText} onPress={() => fetchSymptoms()}>
+          Tap to retry
+        </Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
-      <Text style={styles.text}>Calendar</Text>
+      <View style={styles.header}>
+        <Text style={styles.title}>Calendar</Text>
+        <View style={styles.modeSwitch}>
+          {(['month', 'week'] as ViewMode[]).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.modeButton, viewMode === mode && styles.modeButtonActive]}
+              onPress={() => setViewMode(mode)}
+            >
+              <Text style={[styles.modeButtonText, viewMode === mode && styles.modeButtonTextActive]}>
+                {mode === 'month' ? 'Month' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.periodBar}>
+        <TouchableOpacity onPress={handlePrevious} style={styles.periodButton}>
+          <Ionicons name="chevron-back" size={22} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setSelectedDate(new Date())}>
+          <Text style={styles.periodTitle}>{periodTitle()}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleNext} style={styles.periodButton}>
+          <Ionicons name="chevron-forward" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {viewMode === 'month' ? renderMonth() : renderWeek()}
+
+        <View style={styles.legend}>
+          <LegendItem color={DAY_STATUS_COLORS.taken} label="All taken" />
+          <LegendItem color={DAY_STATUS_COLORS.partial} label="Partly taken" />
+          <LegendItem color={DAY_STATUS_COLORS.missed} label="Missed" />
+          <LegendItem color={DAY_STATUS_COLORS.upcoming} label="Upcoming" />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+function LegendItem({ color, label }: { color: string; label: string }) {
+  return (
+    <View style={styles.legendItem}>
+      <View style={[styles.statusDot, { backgroundColor: color }]} />
+      <Text style={styles.legendText}>{label}</Text>
     </View>
   );
 }
 
 const styles = StyleSheet.create({
-  container: { flex: 1, justifyContent: 'center', alignItems: 'center' },
-  text: { fontSize: 30 },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    paddingTop: 60,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  modeSwitch: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    padding: 2,
+  },
+  modeButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 6,
+  },
+  modeButtonActive: {
+    backgroundColor: '#ffffff',
+  },
+  modeButtonText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  modeButtonTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  periodBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  periodButton: {
+    padding: 8,
+  },
+  periodTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    padding: 16,
+  },
+  calendarCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 8,
+    marginBottom: 16,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+    paddingVertical: 6,
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  dayCellSelected: {
+    backgroundColor: '#f0f8ff',
+  },
+  dayNumber: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  dayNumberOutside: {
+    color: '#cccccc',
+  },
+  dayNumberToday: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+  },
+  dayNumberSelected: {
+    fontWeight: 'bold',
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 4,
+  },
+  dayCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  agendaHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  noDosesText: {
+    fontSize: 14,
+    color: '#999999',
+    fontStyle: 'italic',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 4,
+    marginBottom: 24,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#ff3b30',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryText: {
+    fontSize: 16,
+    color: '#007AFF',
+    textDecorationLine: 'underline',
+  },
 });
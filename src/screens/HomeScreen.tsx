@@ -1,11 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { View, Text, StyleSheet, FlatList, ActivityIndicator, Alert, TextInput, TouchableOpacity } from 'react-native';
-import { apiService, type Symptom } from '../services/api';
+import { type Symptom } from '../services/api';
 import SymptomCard from '../components/SymptomCard';
+import EpisodeEditor from '../components/EpisodeEditor';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { HomeStackParamList } from '../navigation/HomeStackNavigator';
 import { useFocusEffect } from '@react-navigation/native';
+import { RequestCancelledError, describeApiError } from '../services/errors';
+import { createLogger } from '../services/logger';
+import { findOpenEpisode, getCurrentUpdate } from '../store/episodeStore';
+import { getCurrentStage, getNextStage } from '../utils/stages';
+import {
+  selectCurrentStages,
+  selectEpisodes,
+  selectError,
+  selectIsOffline,
+  selectPendingChanges,
+  selectStatus,
+  selectSymptoms,
+  useEpisodeActions,
+  useEpisodeStore,
+  useSymptomActions,
+  useSymptomStore,
+} from '../store/SymptomStoreProvider';
+
+const log = createLogger('Home');
 
 type HomeScreenNavigationProp = StackNavigationProp<HomeStackParamList, 'Home'>;
 
@@ -14,88 +34,80 @@ interface HomeScreenProps {
 }
 
 export default function HomeScreen({ navigation }: HomeScreenProps) {
-  const [symptoms, setSymptoms] = useState<Symptom[]>([]);
-  const [filteredSymptoms, setFilteredSymptoms] = useState<Symptom[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const store = useSymptomActions();
+  const symptoms = useSymptomStore(selectSymptoms);
+  const status = useSymptomStore(selectStatus);
+  const loadError = useSymptomStore(selectError);
+  const isOffline = useSymptomStore(selectIsOffline);
+  const pendingChanges = useSymptomStore(selectPendingChanges);
+  const currentStages = useSymptomStore(selectCurrentStages);
+  const episodeActions = useEpisodeActions();
+  const episodes = useEpisodeStore(selectEpisodes);
   const [searchQuery, setSearchQuery] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+  const [recordingSymptom, setRecordingSymptom] = useState<Symptom | null>(null);
+
+  const fetchSymptoms = React.useCallback(async (signal?: AbortSignal, forceRefresh = false) => {
+    try {
+      await store.load({ signal, forceRefresh });
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        return;
+      }
+      log.error('Failed to load symptoms', err);
+      Alert.alert('Error', describeApiError(err, 'load your symptoms'));
+    }
+  }, [store]);
 
   // Refresh symptoms when screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
-      fetchSymptoms();
-    }, [])
+      // Leaving the screen cancels a load that is still in flight
+      const controller = new AbortController();
+      fetchSymptoms(controller.signal);
+      return () => controller.abort();
+    }, [fetchSymptoms])
   );
 
-  useEffect(() => {
-    filterSymptoms();
+  const filteredSymptoms = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return query ? symptoms.filter(symptom => symptom.name.toLowerCase().includes(query)) : symptoms;
   }, [searchQuery, symptoms]);
 
-  const fetchSymptoms = async () => {
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSymptoms(undefined, true);
+    setRefreshing(false);
+  };
+
+  const handleToggleActive = async (symptomId: number, value: boolean) => {
+    const symptomToUpdate = symptoms.find(s => s.id === symptomId);
+    if (!symptomToUpdate) return;
+
     try {
-      setLoading(true);
-      setError(null);
-      console.log('Fetching symptoms from API...');
-      const symptomsData = await apiService.getSymptoms();
-      console.log('Fetched symptoms:', symptomsData);
-      console.log('Number of symptoms:', symptomsData.length);
-      setSymptoms(symptomsData);
+      // The store shows the change straight away and undoes it if the server refuses
+      await store.updateSymptom(symptomToUpdate, { isActive: value });
+      log.debug(`Set symptom ${symptomId} active: ${value}`);
     } catch (err) {
-      console.error('Error fetching symptoms:', err);
-      setError('Failed to load symptoms. Please try again.');
-      Alert.alert('Error', 'Failed to load symptoms. Please check your connection and try again.');
-    } finally {
-      setLoading(false);
+      log.error(`Failed to update symptom ${symptomId}`, err);
+      Alert.alert('Error', describeApiError(err, 'update the symptom'));
     }
   };
 
-  const filterSymptoms = () => {
-    if (!searchQuery.trim()) {
-      setFilteredSymptoms(symptoms);
-    } else {
-      const filtered = symptoms.filter(symptom =>
-        symptom.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredSymptoms(filtered);
-    }
-    console.log('Filtered symptoms:', filteredSymptoms.length, 'from total:', symptoms.length);
-  };
+  const handleChangeStage = async (symptom: Symptom, step: 1 | -1) => {
+    const stage = getNextStage(symptom, currentStages, step);
+    if (!stage) return;
 
-  const handleToggleActive = async (symptomId: number, value: boolean) => {
     try {
-      // Find the symptom to update
-      const symptomToUpdate = symptoms.find(s => s.id === symptomId);
-      if (!symptomToUpdate) return;
-
-      // Optimistically update local state first for immediate UI feedback
-      const updatedSymptoms = symptoms.map(symptom =>
-        symptom.id === symptomId
-          ? { ...symptom, isActive: value }
-          : symptom
-      );
-      
-      setSymptoms(updatedSymptoms);
-
-      // Update the symptom via API
-      await apiService.updateSymptom(symptomId, {
-        ...symptomToUpdate,
-        isActive: value,
-      });
-
-      console.log(`Successfully updated symptom ${symptomId} to active: ${value}`);
-      
+      await store.setCurrentStage(symptom.id, stage.id);
+      // An ongoing episode records the new stage at the same severity
+      const episode = findOpenEpisode(episodes, symptom.id);
+      if (episode) {
+        await episodeActions.recordUpdate(episode.id, { stage, severity: getCurrentUpdate(episode).severity });
+      }
     } catch (err) {
-      console.error('Error updating symptom:', err);
-      
-      // Revert the local state change if API call failed
-      const revertedSymptoms = symptoms.map(symptom =>
-        symptom.id === symptomId
-          ? { ...symptom, isActive: !value }
-          : symptom
-      );
-      
-      setSymptoms(revertedSymptoms);
-      Alert.alert('Error', 'Failed to update symptom. Please try again.');
+      log.error(`Failed to change the stage of symptom ${symptom.id}`, err);
+      Alert.alert('Error', 'Could not change the stage. Please try again.');
     }
   };
 
@@ -103,14 +115,23 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     navigation.navigate('AddSymptom');
   };
 
+  const handleOpenSymptom = (symptom: Symptom) => {
+    navigation.navigate('SymptomDetail', { symptomId: symptom.id });
+  };
+
   const renderSymptomCard = ({ item }: { item: Symptom }) => (
     <SymptomCard
       symptom={item}
       onToggleActive={handleToggleActive}
+      onPress={handleOpenSymptom}
+      episode={findOpenEpisode(episodes, item.id)}
+      onRecordEpisode={setRecordingSymptom}
+      currentStage={getCurrentStage(item, currentStages)}
+      onChangeStage={handleChangeStage}
     />
   );
 
-  if (loading) {
+  if (status === 'idle' || status === 'loading') {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#007AFF" />
@@ -119,11 +140,11 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     );
   }
 
-  if (error) {
+  if (status === 'error') {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
-        <Text style={styles.retryText} onPress={fetchSymptoms}>
+        <Text style={styles.errorText}>{describeApiError(loadError, 'load your symptoms')}</Text>
+        <Text style={styles.retryText} onPress={() => fetchSymptoms()}>
           Tap to retry
         </Text>
       </View>
@@ -138,11 +159,21 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
           <Text style={styles.subtitle}>Manage your symptoms</Text>
           <Text style={styles.debugText}>Symptoms: {symptoms.length} | Filtered: {filteredSymptoms.length}</Text>
         </View>
-        <TouchableOpacity style={styles.refreshButton} onPress={fetchSymptoms}>
+        <TouchableOpacity style={styles.refreshButton} onPress={handleRefresh}>
           <Ionicons name="refresh" size={20} color="#007AFF" />
         </TouchableOpacity>
       </View>
       
+      {isOffline && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="cloud-offline-outline" size={18} color="#8a5a00" />
+          <Text style={styles.offlineText}>
+            Offline – showing saved data
+            {pendingChanges > 0 ? ` (${pendingChanges} change${pendingChanges !== 1 ? 's' : ''} waiting to sync)` : ''}
+          </Text>
+        </View>
+      )}
+
       <View style={styles.searchContainer}>
         <View style={styles.searchBar}>
           <Ionicons name="search" size={20} color="#666" style={styles.searchIcon} />
@@ -188,6 +219,8 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
           keyExtractor={(item) => item.id.toString()}
           contentContainerStyle={styles.listContainer}
           showsVerticalScrollIndicator={false}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
         />
       )}
 
@@ -195,6 +228,8 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
       <TouchableOpacity style={styles.fab} onPress={handleAddSymptom}>
         <Ionicons name="add" size={28} color="#ffffff" />
       </TouchableOpacity>
+
+      <EpisodeEditor symptom={recordingSymptom} onClose={() => setRecordingSymptom(null)} />
     </View>
   );
 }
@@ -236,6 +271,21 @@ const styles = StyleSheet.create({
   refreshButton: {
     padding: 8,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff4e0',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ffe0a8',
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#8a5a00',
+    marginLeft: 8,
+  },
   searchContainer: {
     backgroundColor: '#ffffff',
     paddingHorizontal: 16,
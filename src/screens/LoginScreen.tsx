@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { apiService } from '../services/api';
+import { HttpError, describeApiError } from '../services/errors';
+import {
+  addEnvironment,
+  loadEnvironments,
+  normalizeServerURL,
+  type ServerEnvironment,
+} from '../services/environments';
+import { DEMO_BASE_URL } from '../services/fakeBackend';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Login');
+
+export default function LoginScreen() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  // The server can be changed here too, since Settings is only reachable after signing in
+  const [currentURL, setCurrentURL] = useState('');
+  const [environments, setEnvironments] = useState<ServerEnvironment[]>([]);
+  const [choosingServer, setChoosingServer] = useState(false);
+  const [otherURL, setOtherURL] = useState('');
+
+  const loadServers = async () => {
+    const [saved, url] = await Promise.all([loadEnvironments(), apiService.getBaseURL()]);
+    setEnvironments(saved.filter(environment => environment.url !== DEMO_BASE_URL));
+    setCurrentURL(url === DEMO_BASE_URL ? apiService.getDefaultBaseURL() : url);
+  };
+
+  useEffect(() => {
+    loadServers().catch(error => log.warn('Could not load the servers', error));
+  }, []);
+
+  const canSubmit = email.trim().length > 0 && password.length > 0 && !isLoading;
+
+  const handleTryDemo = async () => {
+    setIsLoading(true);
+    try {
+      await apiService.startDemo();
+    } catch (error) {
+      log.error('Failed to start demo', error);
+      Alert.alert('Error', 'Could not start the demo. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLogin = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // On success App swaps this screen out via apiService.onAuthStateChange
+      await apiService.login(email.trim(), password);
+    } catch (error) {
+      log.error('Failed to sign in', error);
+      // Only the server saying no means the credentials were wrong
+      const rejected = error instanceof HttpError && (error.status === 400 || error.status === 401);
+      Alert.alert(
+        'Sign In Failed',
+        rejected ? 'Please check your email and password and try again.' : describeApiError(error, 'sign in')
+      );
+      if (rejected) {
+        setPassword('');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectServer = async (url: string) => {
+    try {
+      await apiService.setBaseURL(url);
+      setChoosingServer(false);
+      setOtherURL('');
+      await loadServers();
+    } catch (error) {
+      log.error('Failed to switch server', error);
+      Alert.alert('Error', 'Could not switch server. Please try again.');
+    }
+  };
+
+  // A typed server is saved so Settings lists it once signed in
+  const handleUseOtherServer = async () => {
+    const url = normalizeServerURL(otherURL);
+    if (!url) {
+      Alert.alert('Error', 'Please enter a valid server URL, e.g. http://192.168.1.20:5050/api');
+      return;
+    }
+    if (!environments.some(environment => environment.url === url)) {
+      await addEnvironment(url.replace(/^https?:\/\//i, ''), url);
+    }
+    await selectServer(url);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.content}>
+        <Ionicons name="medkit" size={56} color="#007AFF" style={styles.logo} />
+        <Text style={styles.title}>TrackYourMeds</Text>
+        <Text style={styles.subtitle}>Sign in to see your medications</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Email</Text>
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            placeholder="you@example.com"
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="email-address"
+            textContentType="username"
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Password</Text>
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Password"
+            placeholderTextColor="#999"
+            secureTextEntry={true}
+            textContentType="password"
+            onSubmitEditing={handleLogin}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.loginButton, !canSubmit && styles.loginButtonDisabled]}
+          onPress={handleLogin}
+          disabled={!canSubmit}
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.loginButtonText}>Sign In</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.demoButton} onPress={handleTryDemo} disabled={isLoading}>
+          <Text style={styles.demoButtonText}>Try the demo with sample data</Text>
+        </TouchableOpacity>
+
+        <View style={styles.server}>
+          <View style={styles.serverRow}>
+            <Text style={[styles.serverURL, styles.serverCurrent]} numberOfLines={1}>Server: {currentURL}</Text>
+            <TouchableOpacity onPress={() => setChoosingServer(!choosingServer)} disabled={isLoading}>
+              <Text style={styles.serverAction}>{choosingServer ? 'Cancel' : 'Change'}</Text>
+            </TouchableOpacity>
+          </View>
+          {choosingServer && (
+            <>
+              {environments.map(environment => (
+                <TouchableOpacity
+                  key={environment.id}
+                  style={styles.serverRow}
+                  onPress={() => selectServer(environment.url)}
+                >
+                  <Ionicons
+                    name={environment.url === currentURL ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={environment.url === currentURL ? '#007AFF' : '#999'}
+                  />
+                  <View style={styles.serverText}>
+                    <Text style={styles.serverName}>{environment.name}</Text>
+                    <Text style={styles.serverURL} numberOfLines={1}>{environment.url}</Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+              <View style={styles.serverRow}>
+                <TextInput
+                  style={[styles.input, styles.serverInput]}
+                  value={otherURL}
+                  onChangeText={setOtherURL}
+                  placeholder="Other server URL"
+                  placeholderTextColor="#999"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  onSubmitEditing={handleUseOtherServer}
+                />
+                <TouchableOpacity onPress={handleUseOtherServer} disabled={!otherURL.trim()}>
+                  <Text style={[styles.serverAction, !otherURL.trim() && styles.serverActionDisabled]}>Use</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  logo: {
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333333',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#333333',
+  },
+  loginButton: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  loginButtonDisabled: {
+    backgroundColor: '#cccccc',
+  },
+  loginButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  demoButton: {
+    padding: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  demoButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  server: {
+    marginTop: 24,
+  },
+  serverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  serverText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  serverName: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  serverCurrent: {
+    flex: 1,
+  },
+  serverURL: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  serverAction: {
+    fontSize: 15,
+    color: '#007AFF',
+    marginLeft: 12,
+  },
+  serverActionDisabled: {
+    opacity: 0.5,
+  },
+  serverInput: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+});
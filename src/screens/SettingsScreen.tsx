@@ -1,24 +1,457 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useFocusEffect } from '@react-navigation/native';
+import { apiService } from '../services/api';
+import { DEMO_BASE_URL } from '../services/fakeBackend';
+import {
+  addEnvironment,
+  loadEnvironments,
+  normalizeServerURL,
+  removeEnvironment,
+  type ServerEnvironment,
+} from '../services/environments';
+import LogViewer from '../components/LogViewer';
+import ReportExport from '../components/ReportExport';
+import BackupRestore from '../components/BackupRestore';
+
+type ConnectionStatus = 'idle' | 'testing' | 'ok' | 'failed';
 
 export default function SettingsScreen() {
+  const [environments, setEnvironments] = useState<ServerEnvironment[]>([]);
+  const [currentURL, setCurrentURL] = useState('');
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle');
+  const [newName, setNewName] = useState('');
+  const [newURL, setNewURL] = useState('');
+  const [newServerStatus, setNewServerStatus] = useState<ConnectionStatus>('idle');
+  const [showLogs, setShowLogs] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadServerSettings();
+    }, [])
+  );
+
+  const loadServerSettings = async () => {
+    setEnvironments(await loadEnvironments());
+    setCurrentURL(await apiService.getBaseURL());
+  };
+
+  const handleTestConnection = async () => {
+    setConnectionStatus('testing');
+    setConnectionStatus((await apiService.healthCheck()) ? 'ok' : 'failed');
+  };
+
+  const switchTo = async (environment: ServerEnvironment) => {
+    if (environment.url === DEMO_BASE_URL) {
+      await apiService.startDemo();
+    } else {
+      await apiService.setBaseURL(environment.url);
+    }
+    setCurrentURL(environment.url);
+    setConnectionStatus('idle');
+  };
+
+  const handleSelectEnvironment = async (environment: ServerEnvironment) => {
+    if (environment.url === currentURL) {
+      return;
+    }
+
+    if (apiService.isDemoMode()) {
+      Alert.alert('Leave Demo', `Switching to ${environment.name} ends the demo. You'll need to sign in to that server.`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', onPress: () => switchTo(environment) },
+      ]);
+      return;
+    }
+
+    // The session belongs to the current server, so switching always signs out
+    const pending = await apiService.getPendingMutationCount();
+    const warning = pending > 0
+      ? ` You have ${pending} change${pending !== 1 ? 's' : ''} that haven't synced yet; they will be discarded.`
+      : '';
+
+    Alert.alert(
+      'Switch Server',
+      `Switching to ${environment.name} signs you out. You'll need to sign in to that server.${warning}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', style: pending > 0 ? 'destructive' : 'default', onPress: () => switchTo(environment) },
+      ]
+    );
+  };
+
+  const handleRemoveEnvironment = (environment: ServerEnvironment) => {
+    const signsOut = environment.url === currentURL ? ' You are using it, so you will be signed out.' : '';
+    Alert.alert('Remove Server', `Remove ${environment.name} from your saved servers?${signsOut}`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await removeEnvironment(environment.id);
+          if (environment.url === currentURL) {
+            await apiService.setBaseURL(apiService.getDefaultBaseURL());
+          }
+          loadServerSettings();
+        },
+      },
+    ]);
+  };
+
+  const handleTestNewServer = async () => {
+    const url = normalizeServerURL(newURL);
+    if (!url) {
+      Alert.alert('Error', 'Please enter a valid server URL, e.g. http://192.168.1.20:5050/api');
+      return;
+    }
+    setNewServerStatus('testing');
+    setNewServerStatus((await apiService.healthCheck(url)) ? 'ok' : 'failed');
+  };
+
+  const handleSignOut = async () => {
+    const pending = await apiService.getPendingMutationCount();
+    const warning = pending > 0
+      ? ` ${pending} change${pending !== 1 ? 's' : ''} that haven't synced yet will be lost.`
+      : '';
+
+    Alert.alert('Sign Out', `Sign out and remove your data from this device?${warning}`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out', style: 'destructive', onPress: () => apiService.logout() },
+    ]);
+  };
+
+  const handleSaveNewServer = async () => {
+    const url = normalizeServerURL(newURL);
+    if (!newName.trim()) {
+      Alert.alert('Error', 'Please enter a name for this server');
+      return;
+    }
+    if (!url) {
+      Alert.alert('Error', 'Please enter a valid server URL, e.g. http://192.168.1.20:5050/api');
+      return;
+    }
+    if (environments.some(environment => environment.url === url)) {
+      Alert.alert('Error', 'This server is already saved');
+      return;
+    }
+
+    await addEnvironment(newName, url);
+    setNewName('');
+    setNewURL('');
+    setNewServerStatus('idle');
+    loadServerSettings();
+  };
+
   return (
     <View style={styles.container}>
-      <Text style={styles.text}>Settings</Text>
-      {/* App Version */}
-      <View style={styles.versionContainer}>
-        <Text style={styles.versionText}>TrackYourMeds v1.0.0</Text>
-        <Text style={styles.versionSubtext}>Built with ❤️ for better health</Text>
+      <View style={styles.header}>
+        <Text style={styles.title}>Settings</Text>
       </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Server */}
+        <Text style={styles.sectionTitle}>Server</Text>
+        <View style={styles.card}>
+          <Text style={styles.label}>Connected to</Text>
+          <Text style={styles.currentURL} selectable={true}>{currentURL}</Text>
+          <View style={styles.testRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleTestConnection}>
+              <Text style={styles.secondaryButtonText}>Test Connection</Text>
+            </TouchableOpacity>
+            <ConnectionStatusLabel status={connectionStatus} />
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          {environments.map(environment => {
+            const isActive = environment.url === currentURL;
+            return (
+              <TouchableOpacity
+                key={environment.id}
+                style={styles.environmentRow}
+                onPress={() => handleSelectEnvironment(environment)}
+              >
+                <Ionicons
+                  name={isActive ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={isActive ? '#007AFF' : '#999'}
+                />
+                <View style={styles.environmentText}>
+                  <Text style={styles.environmentName}>{environment.name}</Text>
+                  <Text style={styles.environmentURL} numberOfLines={1}>{environment.url}</Text>
+                </View>
+                {!environment.isBuiltIn && (
+                  <TouchableOpacity onPress={() => handleRemoveEnvironment(environment)} style={styles.iconButton}>
+                    <Ionicons name="trash-outline" size={18} color="#ff3b30" />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Add Server</Text>
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="e.g., Staging"
+            placeholderTextColor="#999"
+          />
+          <Text style={styles.label}>URL</Text>
+          <TextInput
+            style={styles.input}
+            value={newURL}
+            onChangeText={text => {
+              setNewURL(text);
+              setNewServerStatus('idle');
+            }}
+            placeholder="http://192.168.1.20:5050/api"
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <View style={styles.testRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleTestNewServer}>
+              <Text style={styles.secondaryButtonText}>Test</Text>
+            </TouchableOpacity>
+            <ConnectionStatusLabel status={newServerStatus} />
+            <TouchableOpacity style={styles.primaryButton} onPress={handleSaveNewServer}>
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Health Data */}
+        <Text style={styles.sectionTitle}>Health Data</Text>
+        <TouchableOpacity style={[styles.card, styles.menuRow]} onPress={() => setShowReport(true)}>
+          <Ionicons name="medical-outline" size={20} color="#007AFF" />
+          <Text style={styles.menuText}>Export Doctor Report</Text>
+          <Ionicons name="chevron-forward" size={18} color="#999" />
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.card, styles.menuRow]} onPress={() => setShowBackup(true)}>
+          <Ionicons name="archive-outline" size={20} color="#007AFF" />
+          <Text style={styles.menuText}>Backup & Restore</Text>
+          <Ionicons name="chevron-forward" size={18} color="#999" />
+        </TouchableOpacity>
+
+        {/* Account */}
+        <Text style={styles.sectionTitle}>Account</Text>
+        <TouchableOpacity style={[styles.card, styles.signOutRow]} onPress={handleSignOut}>
+          <Ionicons name="log-out-outline" size={20} color="#ff3b30" />
+          <Text style={styles.signOutText}>Sign Out</Text>
+        </TouchableOpacity>
+
+        {/* Diagnostics */}
+        <Text style={styles.sectionTitle}>Diagnostics</Text>
+        <TouchableOpacity style={[styles.card, styles.menuRow]} onPress={() => setShowLogs(true)}>
+          <Ionicons name="document-text-outline" size={20} color="#007AFF" />
+          <Text style={styles.menuText}>View Logs</Text>
+          <Ionicons name="chevron-forward" size={18} color="#999" />
+        </TouchableOpacity>
+
+        {/* App Version */}
+        <View style={styles.versionContainer}>
+          <Text style={styles.versionText}>TrackYourMeds v1.0.0</Text>
+          <Text style={styles.versionSubtext}>Built with ❤️ for better health</Text>
+        </View>
+      </ScrollView>
+
+      <LogViewer visible={showLogs} onClose={() => setShowLogs(false)} />
+      <ReportExport visible={showReport} onClose={() => setShowReport(false)} />
+      <BackupRestore visible={showBackup} onClose={() => setShowBackup(false)} />
+    </View>
+  );
+}
+
+function ConnectionStatusLabel({ status }: { status: ConnectionStatus }) {
+  if (status === 'testing') {
+    return <ActivityIndicator size="small" color="#007AFF" style={styles.statusLabel} />;
+  }
+  if (status === 'idle') {
+    return <View style={styles.statusLabel} />;
+  }
+  return (
+    <View style={[styles.statusLabel, styles.statusRow]}>
+      <Ionicons
+        name={status === 'ok' ? 'checkmark-circle' : 'close-circle'}
+        size={18}
+        color={status === 'ok' ? '#34c759' : '#ff3b30'}
+      />
+      <Text style={[styles.statusText, status === 'ok' ? styles.statusOk : styles.statusFailed]}>
+        {status === 'ok' ? 'Connected' : 'Unreachable'}
+      </Text>
     </View>
   );
 }
 
 const styles = StyleSheet.create({
-  container: { flex: 1, justifyContent: 'center', alignItems: 'center' },
-  text: { fontSize: 30 },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333333',
+    marginBottom: 6,
+  },
+  currentURL: {
+    fontSize: 15,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333333',
+    marginBottom: 12,
+  },
+  testRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: '#f0f8ff',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  primaryButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statusLabel: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  statusOk: {
+    color: '#34c759',
+  },
+  statusFailed: {
+    color: '#ff3b30',
+  },
+  environmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  environmentText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  environmentName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  environmentURL: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  signOutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  signOutText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#ff3b30',
+    marginLeft: 8,
+  },
+  menuRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  menuText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+    marginLeft: 8,
+  },
   versionContainer: {
     marginTop: 20,
+    marginBottom: 32,
     alignItems: 'center',
   },
   versionText: {
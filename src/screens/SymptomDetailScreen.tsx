@@ -0,0 +1,593 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  Switch,
+  RefreshControl,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { apiService, type Stage, type Medication, type PartialMedication } from '../services/api';
+import { RequestCancelledError, describeApiError } from '../services/errors';
+import { HomeStackParamList } from '../navigation/HomeStackNavigator';
+import EditableMedication from '../components/EditableMedication';
+import EpisodeEditor from '../components/EpisodeEditor';
+import EpisodeTimeline from '../components/EpisodeTimeline';
+import ReportExport from '../components/ReportExport';
+import { createLogger } from '../services/logger';
+import type { Episode } from '../store/episodeStore';
+import { getCurrentStage } from '../utils/stages';
+import {
+  selectCurrentStages,
+  selectEpisodes,
+  selectError,
+  selectStatus,
+  useEpisodeActions,
+  useEpisodeStore,
+  useSymptomActions,
+  useSymptomStore,
+} from '../store/SymptomStoreProvider';
+
+const log = createLogger('SymptomDetail');
+
+type SymptomDetailScreenNavigationProp = StackNavigationProp<HomeStackParamList, 'SymptomDetail'>;
+type SymptomDetailScreenRouteProp = RouteProp<HomeStackParamList, 'SymptomDetail'>;
+
+interface SymptomDetailScreenProps {
+  navigation: SymptomDetailScreenNavigationProp;
+  route: SymptomDetailScreenRouteProp;
+}
+
+export default function SymptomDetailScreen({ navigation, route }: SymptomDetailScreenProps) {
+  const { symptomId } = route.params;
+
+  const store = useSymptomActions();
+  const symptom = useSymptomStore(state => state.symptoms.find(s => s.id === symptomId));
+  const status = useSymptomStore(selectStatus);
+  const loadError = useSymptomStore(selectError);
+  const currentStages = useSymptomStore(selectCurrentStages);
+  const episodeActions = useEpisodeActions();
+  const allEpisodes = useEpisodeStore(selectEpisodes);
+  const episodes = useMemo(() => allEpisodes.filter(e => e.symptomId === symptomId), [allEpisodes, symptomId]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
+  const [editingStageId, setEditingStageId] = useState<number | null>(null);
+  const [stageNameDraft, setStageNameDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  // Name as last loaded, to tell whether the name field holds an unsaved edit
+  const loadedName = useRef('');
+  const symptomName = symptom?.name;
+
+  const fetchSymptom = React.useCallback(async (signal?: AbortSignal, forceRefresh = false) => {
+    try {
+      await store.load({ signal, forceRefresh });
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        return;
+      }
+      log.error(`Failed to load symptom ${symptomId}`, err);
+      if (forceRefresh) {
+        Alert.alert('Error', describeApiError(err, 'refresh this symptom'));
+      }
+    }
+  }, [store, symptomId]);
+
+  // Follow renames from the server or another screen without overwriting an unsaved name
+  useEffect(() => {
+    if (symptomName === undefined) return;
+    const previousName = loadedName.current;
+    loadedName.current = symptomName;
+    setNameDraft(draft => (draft === previousName ? symptomName : draft));
+  }, [symptomName]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSymptom(undefined, true);
+    setRefreshing(false);
+  };
+
+  // Reload whenever the screen comes into focus
+  useFocusEffect(
+    React.useCallback(() => {
+      // Leaving the screen cancels a load that is still in flight
+      const controller = new AbortController();
+      fetchSymptom(controller.signal);
+      return () => controller.abort();
+    }, [fetchSymptom])
+  );
+
+  // Run a write through the store, which updates the shared tree and reloads it itself
+  const runUpdate = async (update: () => Promise<unknown>, actionName: string) => {
+    setIsSaving(true);
+    try {
+      await update();
+    } catch (err) {
+      log.error(`Failed to update symptom ${symptomId}`, err);
+      Alert.alert('Error', describeApiError(err, actionName));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Stage and medication writes go straight to the API, so the shared tree is reloaded after them
+  const runApiUpdate = (update: () => Promise<unknown>, actionName: string) =>
+    runUpdate(async () => {
+      await update();
+      await store.load();
+    }, actionName);
+
+  const handleSaveName = () => {
+    if (!symptom) return;
+    if (!nameDraft.trim()) {
+      Alert.alert('Error', 'Please enter a symptom name');
+      return;
+    }
+    runUpdate(
+      () => store.updateSymptom(symptom, { name: nameDraft.trim() }),
+      'rename the symptom'
+    );
+  };
+
+  const handleToggleActive = (value: boolean) => {
+    if (!symptom) return;
+    runUpdate(
+      () => store.updateSymptom(symptom, { isActive: value }),
+      'update the symptom'
+    );
+  };
+
+  const handleDeleteSymptom = () => {
+    if (!symptom) return;
+    Alert.alert(
+      'Delete Symptom',
+      `Delete "${symptom.name}" with all of its stages, medications and logged doses?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            // The symptom leaves the list straight away and comes back if the delete fails
+            navigation.goBack();
+            store.deleteSymptom(symptom.id).catch(err => {
+              log.error(`Failed to delete symptom ${symptomId}`, err);
+              Alert.alert('Error', describeApiError(err, 'delete the symptom'));
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const startRenamingStage = (stage: Stage) => {
+    setEditingStageId(stage.id);
+    setStageNameDraft(stage.name);
+  };
+
+  const handleSaveStageName = (stage: Stage) => {
+    if (!stageNameDraft.trim()) {
+      Alert.alert('Error', 'Please enter a stage name');
+      return;
+    }
+    setEditingStageId(null);
+    runApiUpdate(
+      () => apiService.updateStage(stage.id, { ...stage, name: stageNameDraft.trim() }),
+      'rename the stage'
+    );
+  };
+
+  const handleDeleteStage = (stage: Stage) => {
+    Alert.alert(
+      'Delete Stage',
+      `Delete the ${stage.name} stage and its ${stage.medication.length} medication(s)?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            runApiUpdate(() => apiService.deleteStage(stage.id), 'delete the stage'),
+        },
+      ]
+    );
+  };
+
+  const handleMakeCurrent = (stage: Stage) => {
+    if (!symptom) return;
+    store.setCurrentStage(symptom.id, stage.id).catch(err => {
+      log.error(`Failed to change the stage of symptom ${symptomId}`, err);
+      Alert.alert('Error', 'Could not change the stage. Please try again.');
+    });
+  };
+
+  const handleAddMedication = (stage: Stage) => {
+    if (!symptom) return;
+    navigation.navigate('AddMedication', {
+      stageId: stage.id,
+      stageName: stage.name,
+      symptomId: symptom.id,
+      symptomName: symptom.name,
+    });
+  };
+
+  const handleSaveMedication = async (medication: Medication, changes: PartialMedication) => {
+    await runApiUpdate(
+      () => apiService.updateMedication(medication.id, changes),
+      'update the medication'
+    );
+  };
+
+  const handleDeleteMedication = (medication: Medication) => {
+    Alert.alert(
+      'Delete Medication',
+      `Delete ${medication.name}? Its logged doses will be removed too.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            runApiUpdate(
+              () => apiService.deleteMedication(medication.id),
+              'delete the medication'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleDeleteEpisode = (episode: Episode) => {
+    Alert.alert(
+      'Delete Episode',
+      `Delete the episode from ${new Date(episode.startedAt).toLocaleString()}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            episodeActions.deleteEpisode(episode.id).catch(err => {
+              log.error(`Failed to delete episode ${episode.id}`, err);
+              Alert.alert('Error', 'Could not delete the episode. Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  if (!symptom && (status === 'idle' || status === 'loading')) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading symptom...</Text>
+      </View>
+    );
+  }
+
+  if (!symptom) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>
+          {status === 'error' ? describeApiError(loadError, 'load this symptom') : 'This symptom no longer exists'}
+        </Text>
+        <Text style={styles.retryText} onPress={() => fetchSymptom()}>
+          Tap to retry
+        </Text>
+      </View>
+    );
+  }
+
+  const nameChanged = nameDraft.trim() !== symptom.name;
+  // Only an active symptom has medications due, from its current stage
+  const currentStage = symptom.isActive ? getCurrentStage(symptom, currentStages) : null;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{symptom.name}</Text>
+        <TouchableOpacity onPress={() => setShowReport(true)} style={styles.headerButton}>
+          <Ionicons name="share-outline" size={22} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleDeleteSymptom} style={styles.deleteButton}>
+          <Ionicons name="trash-outline" size={22} color="#ff3b30" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {/* Symptom Details */}
+        <View style={styles.card}>
+          <Text style={styles.label}>Symptom Name</Text>
+          <View style={styles.nameRow}>
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              value={nameDraft}
+              onChangeText={setNameDraft}
+              autoCapitalize="words"
+              autoCorrect={false}
+            />
+            {nameChanged && (
+              <TouchableOpacity onPress={handleSaveName} style={styles.inlineSaveButton} disabled={isSaving}>
+                <Text style={styles.inlineSaveText}>Save</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.activeRow}>
+            <Text style={styles.activeLabel}>Active</Text>
+            <Switch
+              value={symptom.isActive}
+              onValueChange={handleToggleActive}
+              disabled={isSaving}
+              trackColor={{ false: '#e0e0e0', true: '#007AFF' }}
+              thumbColor={symptom.isActive ? '#ffffff' : '#f4f3f4'}
+              ios_backgroundColor="#e0e0e0"
+            />
+          </View>
+        </View>
+
+        {/* Episodes */}
+        <View style={styles.card}>
+          <View style={styles.stageHeader}>
+            <Text style={styles.stageName}>Episodes</Text>
+            <TouchableOpacity onPress={() => setIsRecording(true)} style={styles.iconButton}>
+              <Ionicons name="pulse-outline" size={20} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+          <EpisodeTimeline episodes={episodes} onDelete={handleDeleteEpisode} />
+        </View>
+
+        {/* Stages */}
+        {symptom.stages.length === 0 && (
+          <Text style={styles.emptyText}>This symptom has no stages yet</Text>
+        )}
+        {symptom.stages.map(stage => (
+          <View key={stage.id} style={styles.card}>
+            <View style={styles.stageHeader}>
+              {editingStageId === stage.id ? (
+                <>
+                  <TextInput
+                    style={[styles.input, styles.nameInput]}
+                    value={stageNameDraft}
+                    onChangeText={setStageNameDraft}
+                    autoFocus={true}
+                  />
+                  <TouchableOpacity onPress={() => handleSaveStageName(stage)} style={styles.inlineSaveButton}>
+                    <Text style={styles.inlineSaveText}>Save</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setEditingStageId(null)} style={styles.iconButton}>
+                    <Ionicons name="close" size={20} color="#666" />
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.stageName}>{stage.name}</Text>
+                  {currentStage === stage ? (
+                    <Text style={styles.currentBadge}>Current</Text>
+                  ) : (
+                    currentStage && (
+                      <TouchableOpacity onPress={() => handleMakeCurrent(stage)} style={styles.iconButton}>
+                        <Text style={styles.makeCurrentText}>Switch here</Text>
+                      </TouchableOpacity>
+                    )
+                  )}
+                  <TouchableOpacity onPress={() => startRenamingStage(stage)} style={styles.iconButton}>
+                    <Ionicons name="create-outline" size={20} color="#007AFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteStage(stage)} style={styles.iconButton}>
+                    <Ionicons name="trash-outline" size={20} color="#ff3b30" />
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
+            {(stage.medication ?? []).length === 0 ? (
+              <Text style={styles.emptyText}>No medications in this stage</Text>
+            ) : (
+              stage.medication.map(medication => (
+                <EditableMedication
+                  key={medication.id}
+                  medication={medication}
+                  onSave={handleSaveMedication}
+                  onDelete={handleDeleteMedication}
+                />
+              ))
+            )}
+
+            <TouchableOpacity style={styles.addMedicationButton} onPress={() => handleAddMedication(stage)}>
+              <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+              <Text style={styles.addMedicationText}>Add Medication</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+
+      <EpisodeEditor symptom={isRecording ? symptom : null} onClose={() => setIsRecording(false)} />
+      <ReportExport visible={showReport} symptomId={symptom.id} onClose={() => setShowReport(false)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 8,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    textAlign: 'center',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333333',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333333',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  inlineSaveButton: {
+    marginLeft: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f0f8ff',
+  },
+  inlineSaveText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  activeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  activeLabel: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  stageHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  stageName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  currentBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+    backgroundColor: '#34c759',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  makeCurrentText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  addMedicationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    backgroundColor: '#f0f8ff',
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  addMedicationText: {
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#ff3b30',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryText: {
+    fontSize: 16,
+    color: '#007AFF',
+    textDecorationLine: 'underline',
+  },
+});
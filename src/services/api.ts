@@ -1,5 +1,32 @@
 // src/services/api.ts
 import { Platform } from 'react-native';
+import { MutationQueue, nextTempId, type MutationMethod, type QueuedMutation } from './offlineQueue';
+import { STORAGE_KEYS, loadJSON, saveJSON, removeItem } from './storage';
+import { loadTokens, saveTokens, clearTokens, type AuthTokens } from './tokenStorage';
+import {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  InvalidResponseError,
+  HttpError,
+  SessionExpiredError,
+  createHttpError,
+} from './errors';
+import {
+  parseIntake,
+  parseMedication,
+  parseMedications,
+  parseStage,
+  parseSymptom,
+  parseSymptoms,
+} from './schema';
+import { RequestCache } from './requestCache';
+import { DEMO_BASE_URL, demoBackend } from './fakeBackend';
+import { canRetryRequest, createIdempotencyKey, getRetryDelay, isRetryableStatus } from './retryPolicy';
+import { createLogger } from './logger';
+
+const log = createLogger('API');
 
 // Configuration
 const API_CONFIG = {
@@ -12,16 +39,18 @@ const API_CONFIG = {
     : 'https://your-production-domain.com/api',
   
   TIMEOUT: 5000,
-  RETRY_ATTEMPTS: 2,
-  RETRY_DELAY: 500,
+  RETRY_ATTEMPTS: 3,
+  SYNC_INTERVAL: 30000,
+  CACHE_MAX_AGE: 30000, // cached symptoms younger than this are served without a request
 };
 
+
 // Types for the new symptom structure - matching your API exactly
 interface Intake {
   id: number;
   medicationId: number;
   scheduledTime: string;
-  actualTime: string;
+  actualTime: string | null; // null when the dose was skipped
   medication: string;
 }
 
@@ -32,9 +61,10 @@ interface Medication {
   totalDays: number;
   quantityMg: number;
   treatmentId: number | null;
+  formularyId: string | null; // canonical drug from the bundled formulary, null for free-text names
   stageId: number;
   stage: string | null;
-  intakes: Intake[] | null;
+  intakes: Intake[];
 }
 
 interface Stage {
@@ -60,6 +90,7 @@ interface PartialMedication {
   totalDays: number;
   quantityMg: number;
   treatmentId?: number | null;
+  formularyId?: string | null;
   stageId?: number;
   stage?: string | null;
   intakes?: Intake[] | null;
@@ -91,11 +122,39 @@ interface RequestOptions {
   headers?: Record<string, string>;
   body?: any;
   timeout?: number;
+  baseURL?: string;
+  skipAuth?: boolean; // for the login/refresh endpoints themselves
+  isAuthRetry?: boolean;
+  signal?: AbortSignal; // aborts the request, including any pending retries
+  idempotencyKey?: string; // lets the server de-duplicate, which makes a POST safe to retry
+  retry?: boolean;
+}
+
+interface FetchOptions {
+  signal?: AbortSignal;
+  forceRefresh?: boolean; // skip cached data, e.g. for pull-to-refresh
+}
+
+interface OfflineWrite<T> {
+  optimistic: T;
+  updateCache: (symptoms: Symptom[]) => Symptom[];
+  parse: (data: unknown) => T;
+  symptomId?: number; // the symptom whose cached copy the write makes stale, when known
 }
 
 class ApiService {
   private baseURL: string;
   private defaultHeaders: Record<string, string>;
+  private mutationQueue = new MutationQueue();
+  private offline = false;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private syncing: Promise<void> | null = null;
+  private baseURLLoaded: Promise<void> | null = null;
+  private tokens: AuthTokens | null = null;
+  private tokensLoaded: Promise<void> | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  private authListeners = new Set<(signedIn: boolean) => void>();
+  private cache = new RequestCache();
 
   constructor() {
     this.baseURL = API_CONFIG.BASE_URL;
@@ -105,208 +164,740 @@ class ApiService {
     };
   }
 
-  // Helper method to handle timeouts
-  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-    return Promise.race([
-      promise,
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
-      ),
-    ]);
-  }
+  // Fetch that is really aborted when it times out or the caller's signal fires
+  private async fetchWithTimeout(
+    url: string,
+    config: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
 
-  // Helper method for retries
-  private async withRetry<T>(
-    operation: () => Promise<T>,
-    attempts: number = API_CONFIG.RETRY_ATTEMPTS
-  ): Promise<T> {
     try {
-      return await operation();
+      // Demo mode never touches the network
+      const send = url.startsWith(DEMO_BASE_URL) ? demoBackend.fetch : fetch;
+      return await send(url, { ...config, signal: controller.signal });
     } catch (error) {
-      if (attempts > 1) {
-        console.log(`API call failed, retrying... (${attempts - 1} attempts left)`);
-        await new Promise(resolve => setTimeout(resolve, API_CONFIG.RETRY_DELAY));
-        return this.withRetry(operation, attempts - 1);
+      if (timedOut) {
+        throw new TimeoutError();
+      }
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      // fetch rejects with a TypeError when the request never reaches the server
+      if (error instanceof TypeError) {
+        throw new NetworkError();
       }
       throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Wait between attempts, giving up early if the caller cancels
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  // Retry transient failures (network, timeout, 408/429/5xx) with exponential backoff.
+  // Retryable statuses on the final attempt are returned for the caller to report.
+  private async withRetry(
+    operation: () => Promise<Response>,
+    attempts: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= attempts - 1;
+      let retryAfter: string | null = null;
+
+      try {
+        const response = await operation();
+        if (isLastAttempt || !isRetryableStatus(response.status)) {
+          return response;
+        }
+        retryAfter = response.headers.get('retry-after');
+      } catch (error) {
+        if (isLastAttempt || !(error instanceof ApiError) || !error.isRetryable) {
+          throw error;
+        }
+      }
+
+      const wait = getRetryDelay(attempt, retryAfter);
+      log.warn(`Request failed, retrying in ${wait}ms (${attempts - attempt - 1} attempts left)`);
+      await this.delay(wait, signal);
     }
   }
 
   // Main request method
   private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    await this.loadBaseURL();
+    await this.loadSession();
     const {
       method = 'GET',
       headers = {},
       body,
       timeout = API_CONFIG.TIMEOUT,
+      baseURL = this.baseURL,
+      isAuthRetry = false,
+      signal,
+      idempotencyKey,
+      retry = true,
     } = options;
+    // The session belongs to the current server; never send it elsewhere or let another host end it
+    const skipAuth = options.skipAuth || baseURL !== this.baseURL;
 
-    const url = `${this.baseURL}${endpoint}`;
+    const url = `${baseURL}${endpoint}`;
     const config: RequestInit = {
       method,
       headers: {
         ...this.defaultHeaders,
+        ...(this.tokens && !skipAuth ? { Authorization: `Bearer ${this.tokens.accessToken}` } : {}),
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
         ...headers,
       },
     };
+    const attempts = retry && canRetryRequest(method, config.headers as Record<string, string>)
+      ? API_CONFIG.RETRY_ATTEMPTS
+      : 1;
 
     if (body && method !== 'GET') {
       config.body = JSON.stringify(body);
     }
 
-    console.log(`[API] ${method} ${url}`);
-    if (body) {
-      console.log(`[API] Request body:`, body);
-    }
+    log.debug(`${method} ${url}`, body);
 
     try {
-      const response = await this.withRetry(() =>
-        this.withTimeout(fetch(url, config), timeout)
+      const response = await this.withRetry(
+        () => this.fetchWithTimeout(url, config, timeout, signal),
+        attempts,
+        signal
       );
 
-      console.log(`[API] Response: ${response.status}`);
+      log.debug(`Response ${response.status} for ${method} ${endpoint}`);
+
+      // Expired access token: refresh it and try once more, otherwise end the session
+      if (response.status === 401 && !skipAuth) {
+        if (!isAuthRetry && (await this.refreshSession())) {
+          return this.request<T>(endpoint, { ...options, isAuthRetry: true });
+        }
+        await this.endSession();
+        throw new SessionExpiredError();
+      }
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`[API] HTTP Error ${response.status}:`, errorText);
-        throw new Error(`HTTP ${response.status}: ${errorText || response.statusText}`);
+        log.warn(`HTTP ${response.status} for ${method} ${endpoint}`);
+        throw createHttpError(response.status, errorText || response.statusText);
       }
 
-      // Handle empty responses (like DELETE)
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        return {} as T;
+      // Empty responses (204, most DELETEs) have no data; anything else must be JSON
+      const text = await response.text();
+      if (!text.trim()) {
+        return undefined as T;
       }
 
-      const data = await response.json();
-      console.log(`[API] Response data:`, data);
-      return data;
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        throw new InvalidResponseError(null, `${method} ${endpoint} did not return JSON`);
+      }
+      log.debug('Response data', data);
+      return data as T;
     } catch (error) {
-      console.error(`[API] Error:`, error);
-      
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
-        throw new Error('Unable to connect to server. Please check your connection.');
+      if (error instanceof RequestCancelledError) {
+        log.debug(`Cancelled ${method} ${endpoint}`);
+        throw error;
       }
-      
-      if (error instanceof Error && error.message.includes('timeout')) {
-        throw new Error('Request timed out. Please try again.');
+      log.error(`${method} ${endpoint} failed`, error);
+
+      if (error instanceof ApiError) {
+        throw error;
       }
-      
-      throw error;
+
+      throw new ApiError(error instanceof Error ? error.message : String(error));
     }
   }
 
   // HTTP Methods
-  async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET' });
+  async get<T = unknown>(endpoint: string, options: FetchOptions = {}): Promise<T> {
+    return this.request<T>(endpoint, { method: 'GET', signal: options.signal });
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
+  async post<T = unknown>(endpoint: string, data?: any): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: data,
     });
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<T> {
+  async put<T = unknown>(endpoint: string, data?: any): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
       body: data,
     });
   }
 
-  async patch<T>(endpoint: string, data?: any): Promise<T> {
+  async patch<T = unknown>(endpoint: string, data?: any): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PATCH',
       body: data,
     });
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
+  async delete<T = unknown>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
 
+  // Authentication
+
+  private loadSession(): Promise<void> {
+    if (!this.tokensLoaded) {
+      this.tokensLoaded = loadTokens().then(tokens => {
+        this.tokens = tokens;
+      });
+    }
+    return this.tokensLoaded;
+  }
+
+  private notifyAuthListeners(signedIn: boolean) {
+    this.authListeners.forEach(listener => listener(signedIn));
+  }
+
+  // Subscribe to sign in / sign out; returns an unsubscribe function
+  onAuthStateChange(listener: (signedIn: boolean) => void): () => void {
+    this.authListeners.add(listener);
+    return () => {
+      this.authListeners.delete(listener);
+    };
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    await this.loadSession();
+    return this.tokens !== null;
+  }
+
+  async login(email: string, password: string): Promise<void> {
+    const tokens = await this.request<AuthTokens>('/auth/login', {
+      method: 'POST',
+      body: { email, password },
+      skipAuth: true,
+    });
+    if (!tokens?.accessToken || !tokens.refreshToken) {
+      throw new ApiError('Unexpected login response from server');
+    }
+
+    this.tokens = tokens;
+    await saveTokens(tokens);
+    this.notifyAuthListeners(true);
+  }
+
+  // Signs out and removes this user's health data from the device
+  async logout(): Promise<void> {
+    await this.loadSession();
+    if (this.tokens) {
+      try {
+        await this.request('/auth/logout', { method: 'POST', body: { refreshToken: this.tokens.refreshToken } });
+      } catch (error) {
+        log.warn('Logout request failed, clearing session locally', error);
+      }
+    }
+
+    this.cache.clear();
+    await removeItem(STORAGE_KEYS.SYMPTOMS_CACHE);
+    await this.mutationQueue.clear();
+    this.stopSyncTimer();
+    await this.endSession();
+  }
+
+  // Concurrent 401s share a single refresh. Network failures propagate so the
+  // session isn't thrown away just because the device is offline.
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestNewTokens().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async requestNewTokens(): Promise<boolean> {
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const tokens = await this.request<AuthTokens>('/auth/refresh', {
+        method: 'POST',
+        body: { refreshToken },
+        skipAuth: true,
+      });
+      if (!tokens?.accessToken) {
+        return false;
+      }
+      this.tokens = { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken || refreshToken };
+      await saveTokens(this.tokens);
+      return true;
+    } catch (error) {
+      if (this.isNetworkError(error)) {
+        throw error;
+      }
+      log.warn('Token refresh failed', error);
+      return false;
+    }
+  }
+
+  private async endSession(): Promise<void> {
+    const wasSignedIn = this.tokens !== null;
+    this.tokens = null;
+    await clearTokens();
+    if (wasSignedIn) {
+      this.notifyAuthListeners(false);
+    }
+  }
+
+  // Server configuration
+
+  // The server chosen in Settings overrides the build-time default
+  private loadBaseURL(): Promise<void> {
+    if (!this.baseURLLoaded) {
+      this.baseURLLoaded = loadJSON<string | null>(STORAGE_KEYS.BASE_URL, null).then(url => {
+        if (url) {
+          this.baseURL = url;
+        }
+      });
+    }
+    return this.baseURLLoaded;
+  }
+
+  getDefaultBaseURL(): string {
+    return API_CONFIG.BASE_URL;
+  }
+
+  async getBaseURL(): Promise<string> {
+    await this.loadBaseURL();
+    return this.baseURL;
+  }
+
+  // Switch servers without restarting. The session, cached data and unsynced
+  // writes belong to the previous server, so they are discarded.
+  async setBaseURL(url: string): Promise<void> {
+    await this.loadBaseURL();
+    if (url === this.baseURL) {
+      return;
+    }
+
+    log.info(`Switching server to ${url}`);
+    this.baseURL = url;
+    this.offline = false;
+    this.stopSyncTimer();
+    await saveJSON(STORAGE_KEYS.BASE_URL, url);
+    this.cache.clear();
+    await removeItem(STORAGE_KEYS.SYMPTOMS_CACHE);
+    await this.mutationQueue.clear();
+    await this.endSession();
+  }
+
+  // Switch to the built-in sample data and sign in to its demo account
+  async startDemo(): Promise<void> {
+    await this.setBaseURL(DEMO_BASE_URL);
+    if (!(await this.isAuthenticated())) {
+      await this.login('demo', 'demo');
+    }
+  }
+
+  isDemoMode(): boolean {
+    return this.baseURL === DEMO_BASE_URL;
+  }
+
+  // Offline support
+
+  // True when the error means the server could not be reached at all
+  isNetworkError(error: unknown): boolean {
+    return error instanceof ApiError && error.isNetworkError;
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  getPendingMutationCount(): Promise<number> {
+    return this.mutationQueue.size();
+  }
+
+  // The cache may predate the current schema, so it goes through the same checks as server data
+  private async loadCachedSymptoms(): Promise<Symptom[] | null> {
+    const cached = await loadJSON<unknown>(STORAGE_KEYS.SYMPTOMS_CACHE, null);
+    if (cached === null) {
+      return null;
+    }
+    try {
+      return parseSymptoms(cached);
+    } catch (error) {
+      log.warn('Ignoring unreadable symptoms cache', error);
+      return null;
+    }
+  }
+
+  private async updateCachedSymptoms(update: (symptoms: Symptom[]) => Symptom[]): Promise<void> {
+    const cached = await this.loadCachedSymptoms();
+    await saveJSON(STORAGE_KEYS.SYMPTOMS_CACHE, update(cached ?? []));
+  }
+
+  // Send a write, or queue it when the server is unreachable. Once anything is
+  // queued, later writes queue behind it so the server sees them in order.
+  private async write<T>(
+    method: MutationMethod,
+    endpoint: string,
+    body: any,
+    offlineWrite: OfflineWrite<T>
+  ): Promise<T> {
+    // The same key goes with every retry and replay, so the server never creates the record twice
+    const idempotencyKey = method === 'POST' ? createIdempotencyKey() : undefined;
+
+    if ((await this.mutationQueue.size()) === 0) {
+      try {
+        const result = offlineWrite.parse(await this.request(endpoint, { method, body, idempotencyKey }));
+        this.offline = false;
+        this.invalidateSymptoms(offlineWrite.symptomId);
+        return result;
+      } catch (error) {
+        if (!this.isNetworkError(error)) {
+          throw error;
+        }
+        this.offline = true;
+      }
+    }
+
+    log.info(`Offline, queueing ${method} ${endpoint}`);
+    await this.mutationQueue.enqueue({ method, endpoint, body, idempotencyKey, optimistic: offlineWrite.optimistic });
+    await this.updateCachedSymptoms(offlineWrite.updateCache);
+    this.invalidateSymptoms(offlineWrite.symptomId);
+    this.startSyncTimer();
+    return offlineWrite.optimistic;
+  }
+
+  private startSyncTimer() {
+    if (!this.syncTimer) {
+      this.syncTimer = setInterval(() => this.syncPendingMutations(), API_CONFIG.SYNC_INTERVAL);
+    }
+  }
+
+  private stopSyncTimer() {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  // Replay queued writes in order once the server answers a health check again
+  syncPendingMutations(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.replayQueue().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async replayQueue(): Promise<void> {
+    if ((await this.mutationQueue.size()) === 0) {
+      this.stopSyncTimer();
+      return;
+    }
+    if (!(await this.healthCheck())) {
+      this.offline = true;
+      this.startSyncTimer();
+      return;
+    }
+
+    this.offline = false;
+    const result = await this.mutationQueue.replay(
+      (mutation: QueuedMutation) =>
+        this.request(mutation.endpoint, {
+          method: mutation.method,
+          body: mutation.body,
+          idempotencyKey: mutation.idempotencyKey,
+        }),
+      // Keep writes queued when the session expired; they replay after signing back in
+      error => this.isNetworkError(error) || error instanceof SessionExpiredError
+    );
+    log.info(`Replayed ${result.replayed} queued changes (${result.dropped} dropped, ${result.remaining} remaining)`);
+    if (result.orphaned > 0) {
+      log.warn(`${result.orphaned} queued changes were dropped because they depended on a rejected change`);
+    }
+
+    if (result.replayed > 0 || result.dropped > 0) {
+      this.invalidateSymptoms();
+    }
+    if (result.remaining === 0) {
+      this.stopSyncTimer();
+    }
+  }
+
+  // Cached reads
+
+  // Drops the symptom list and either one symptom or, when it isn't known which
+  // symptom a write touched, every cached symptom
+  private invalidateSymptoms(symptomId?: number) {
+    this.cache.invalidate(key =>
+      key === 'symptoms' || (symptomId === undefined ? key.startsWith('symptom:') : key === `symptom:${symptomId}`)
+    );
+  }
+
+  // While offline every read is stale, so each one also tries the server again
+  private cacheOptions(options: FetchOptions) {
+    return {
+      maxAge: this.offline ? 0 : API_CONFIG.CACHE_MAX_AGE,
+      signal: options.signal,
+      forceRefresh: options.forceRefresh,
+    };
+  }
+
+  // Called with new symptoms whenever they are loaded, including background refreshes
+  onSymptomsUpdated(listener: (symptoms: Symptom[]) => void): () => void {
+    return this.cache.subscribe('symptoms', data => listener(data as Symptom[]));
+  }
+
+  onSymptomUpdated(id: number, listener: (symptom: Symptom) => void): () => void {
+    return this.cache.subscribe(`symptom:${id}`, data => listener(data as Symptom));
+  }
+
   // Specific API methods matching your Swagger endpoints exactly
   
   // Symptom endpoints
-  getSymptoms(): Promise<Symptom[]> {
-    return this.get<Symptom[]>('/symptoms');
+  getSymptoms(options: FetchOptions = {}): Promise<Symptom[]> {
+    return this.cache.get('symptoms', signal => this.fetchSymptoms(signal), this.cacheOptions(options));
+  }
+
+  getSymptom(id: number, options: FetchOptions = {}): Promise<Symptom> {
+    return this.cache.get(`symptom:${id}`, signal => this.fetchSymptom(id, signal), this.cacheOptions(options));
   }
 
-  getSymptom(id: number): Promise<Symptom> {
-    return this.get<Symptom>(`/symptoms/${id}`);
+  // Falls back to the symptoms cached on the device when the server is unreachable
+  private async fetchSymptoms(signal?: AbortSignal): Promise<Symptom[]> {
+    await this.syncPendingMutations();
+    try {
+      const symptoms = parseSymptoms(await this.get('/symptoms', { signal }));
+      this.offline = false;
+      await saveJSON(STORAGE_KEYS.SYMPTOMS_CACHE, symptoms);
+      // The list holds every symptom, so opening one can show it straight away
+      symptoms.forEach(symptom => this.cache.set(`symptom:${symptom.id}`, symptom));
+      return symptoms;
+    } catch (error) {
+      const cached = this.isNetworkError(error) ? await this.loadCachedSymptoms() : null;
+      if (!cached) {
+        throw error;
+      }
+      log.info('Offline, using cached symptoms');
+      this.offline = true;
+      return cached;
+    }
+  }
+
+  private async fetchSymptom(id: number, signal?: AbortSignal): Promise<Symptom> {
+    try {
+      return parseSymptom(await this.get(`/symptoms/${id}`, { signal }));
+    } catch (error) {
+      const cached = this.isNetworkError(error) ? await this.loadCachedSymptoms() : null;
+      const symptom = cached?.find(s => s.id === id);
+      if (!symptom) {
+        throw error;
+      }
+      this.offline = true;
+      return symptom;
+    }
   }
 
   createSymptom(symptom: PartialSymptom): Promise<Symptom> {
-    return this.post<Symptom>('/symptoms', symptom);
+    const symptomId = nextTempId();
+    const optimistic: Symptom = {
+      id: symptomId,
+      name: symptom.name,
+      isActive: symptom.isActive,
+      stages: (symptom.stages ?? []).map(stage => {
+        const stageId = nextTempId();
+        return {
+          id: stageId,
+          name: stage.name,
+          symptomId,
+          symptom: symptom.name,
+          medication: (stage.medication ?? []).map(medication => ({
+            id: nextTempId(),
+            name: medication.name,
+            intervalHours: medication.intervalHours,
+            totalDays: medication.totalDays,
+            quantityMg: medication.quantityMg,
+            treatmentId: medication.treatmentId ?? null,
+            formularyId: medication.formularyId ?? null,
+            stageId,
+            stage: null,
+            intakes: [],
+          })),
+        };
+      }),
+    };
+
+    return this.write<Symptom>('POST', '/symptoms', symptom, {
+      optimistic,
+      parse: parseSymptom,
+      updateCache: symptoms => [...symptoms, optimistic],
+    });
   }
 
-  updateSymptom(id: number, symptom: PartialSymptom): Promise<Symptom> {
-    return this.put<Symptom>(`/symptoms/${id}`, symptom);
+  // Updates and deletes only report success; callers reload to see the server's version
+  updateSymptom(id: number, symptom: PartialSymptom): Promise<void> {
+    return this.write<void>('PUT', `/symptoms/${id}`, symptom, {
+      optimistic: undefined,
+      parse: ignoreBody,
+      symptomId: id,
+      updateCache: symptoms =>
+        symptoms.map(s => (s.id === id ? { ...s, name: symptom.name, isActive: symptom.isActive } : s)),
+    });
   }
 
-  deleteSymptom(id: number): Promise<any> {
-    return this.delete(`/symptoms/${id}`);
+  async deleteSymptom(id: number): Promise<void> {
+    await this.delete(`/symptoms/${id}`);
+    this.invalidateSymptoms(id);
   }
 
   // Medication endpoints - matching your exact API
-  getMedicationsByStage(stageId: number): Promise<Medication[]> {
-    return this.get<Medication[]>(`/Medication/stage/${stageId}`);
+  async getMedicationsByStage(stageId: number): Promise<Medication[]> {
+    return parseMedications(await this.get(`/Medication/stage/${stageId}`));
   }
 
-  getMedication(id: number): Promise<Medication> {
-    return this.get<Medication>(`/Medication/${id}`);
+  async getMedication(id: number): Promise<Medication> {
+    return parseMedication(await this.get(`/Medication/${id}`));
   }
 
-  createMedication(medication: PartialMedication): Promise<Medication> {
-    return this.post<Medication>('/Medication', medication);
+  async createMedication(medication: PartialMedication): Promise<Medication> {
+    const created = parseMedication(await this.post('/Medication', medication));
+    this.invalidateSymptoms();
+    return created;
   }
 
-  updateMedication(id: number, medication: PartialMedication): Promise<Medication> {
-    return this.put<Medication>(`/Medication/${id}`, medication);
+  async updateMedication(id: number, medication: PartialMedication): Promise<void> {
+    await this.put(`/Medication/${id}`, medication);
+    this.invalidateSymptoms();
   }
 
-  deleteMedication(id: number): Promise<any> {
-    return this.delete(`/Medication/${id}`);
+  async deleteMedication(id: number): Promise<void> {
+    await this.delete(`/Medication/${id}`);
+    this.invalidateSymptoms();
   }
 
   // Stage management
-  createStage(stage: PartialStage): Promise<Stage> {
-    return this.post<Stage>('/stages', stage);
+  async createStage(stage: PartialStage): Promise<Stage> {
+    const created = parseStage(await this.post('/stages', stage));
+    this.invalidateSymptoms(stage.symptomId);
+    return created;
   }
 
-  updateStage(id: number, stage: PartialStage): Promise<Stage> {
-    return this.put<Stage>(`/stages/${id}`, stage);
+  async updateStage(id: number, stage: PartialStage): Promise<void> {
+    await this.put(`/stages/${id}`, stage);
+    this.invalidateSymptoms(stage.symptomId);
   }
 
-  deleteStage(id: number): Promise<any> {
-    return this.delete(`/stages/${id}`);
+  async deleteStage(id: number): Promise<void> {
+    await this.delete(`/stages/${id}`);
+    this.invalidateSymptoms();
   }
 
-  // Intake management
+  // Intake management - these are queued while offline so logged doses are never lost
   createIntake(intake: Partial<Intake>): Promise<Intake> {
-    return this.post<Intake>('/intakes', intake);
+    const optimistic: Intake = {
+      id: nextTempId(),
+      medicationId: intake.medicationId ?? 0,
+      scheduledTime: intake.scheduledTime ?? new Date().toISOString(),
+      actualTime: intake.actualTime ?? null,
+      medication: intake.medication ?? '',
+    };
+
+    return this.write<Intake>('POST', '/intakes', intake, {
+      optimistic,
+      parse: parseIntake,
+      updateCache: symptoms => updateIntakesInTree(symptoms, optimistic.medicationId, intakes => [...intakes, optimistic]),
+    });
   }
 
-  updateIntake(id: number, intake: Partial<Intake>): Promise<Intake> {
-    return this.put<Intake>(`/intakes/${id}`, intake);
+  updateIntake(id: number, intake: Partial<Intake>): Promise<void> {
+    return this.write<void>('PUT', `/intakes/${id}`, intake, {
+      optimistic: undefined,
+      parse: ignoreBody,
+      updateCache: symptoms =>
+        updateIntakesInTree(symptoms, null, intakes => intakes.map(i => (i.id === id ? { ...i, ...intake, id } : i))),
+    });
   }
 
-  deleteIntake(id: number): Promise<any> {
-    return this.delete(`/intakes/${id}`);
+  deleteIntake(id: number): Promise<void> {
+    return this.write<void>('DELETE', `/intakes/${id}`, undefined, {
+      optimistic: undefined,
+      parse: ignoreBody,
+      updateCache: symptoms => updateIntakesInTree(symptoms, null, intakes => intakes.filter(i => i.id !== id)),
+    });
   }
 
-  async healthCheck(): Promise<boolean> {
+  // Checks the current server, or the given one before switching to it
+  async healthCheck(baseURL?: string): Promise<boolean> {
     try {
-      await this.get('/symptoms');
+      // Never with the session, so a 401 can't start a refresh or sign the user out
+      await this.request('/symptoms', { method: 'GET', baseURL, retry: false, skipAuth: true });
       return true;
     } catch (error) {
-      console.log('[API] Health check failed:', error);
+      // Asking for sign-in still means the server is up
+      if (error instanceof HttpError && error.status === 401) {
+        return true;
+      }
+      log.info('Health check failed', error);
       return false;
     }
   }
 }
 
+function ignoreBody(): void {}
+
+// Apply a change to the intakes of one medication (or every medication when medicationId is null)
+function updateIntakesInTree(
+  symptoms: Symptom[],
+  medicationId: number | null,
+  update: (intakes: Intake[]) => Intake[]
+): Symptom[] {
+  return symptoms.map(symptom => ({
+    ...symptom,
+    stages: (symptom.stages ?? []).map(stage => ({
+      ...stage,
+      medication: (stage.medication ?? []).map(medication =>
+        medicationId === null || medication.id === medicationId
+          ? { ...medication, intakes: update(medication.intakes ?? []) }
+          : medication
+      ),
+    })),
+  }));
+}
+
 // Export singleton instance
 export const apiService = new ApiService();
 
@@ -319,5 +910,6 @@ export type {
   Intake,
   PartialSymptom,
   PartialStage,
-  PartialMedication
+  PartialMedication,
+  FetchOptions
 };
\ No newline at end of file
@@ -0,0 +1,228 @@
+// src/services/backup.ts
+import { apiService, type Symptom } from './api';
+import { InvalidResponseError } from './errors';
+import { parseSymptoms } from './schema';
+
+export const BACKUP_FORMAT = 'trackyourmeds-backup';
+export const BACKUP_VERSION = 1;
+
+// The whole symptom tree as the server returned it; ids are only used to match things up on restore
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  symptoms: Symptom[];
+}
+
+interface RestoreCounts {
+  symptoms: number;
+  stages: number;
+  medications: number;
+  intakes: number;
+}
+
+// What restoring one symptom of the backup would do
+interface RestorePlanItem {
+  symptom: Symptom;
+  duplicateOf: Symptom | null; // an existing symptom with the same name; the backup copy is skipped
+  counts: RestoreCounts;
+}
+
+interface RestorePlan {
+  items: RestorePlanItem[];
+  toCreate: RestoreCounts; // totals over the symptoms that will be created
+  skipped: number;
+}
+
+// Where a restore stopped. A symptom created before the failure is left without some of its
+// logged doses, and restoring again would skip it as a duplicate.
+interface RestoreFailure {
+  symptomName: string;
+  symptomCreated: boolean;
+  missingIntakes: number;
+  error: unknown;
+}
+
+// Old id from the backup -> id of the record created for it
+interface RestoreResult {
+  created: RestoreCounts;
+  symptomIds: Map<number, number>;
+  stageIds: Map<number, number>;
+  medicationIds: Map<number, number>;
+  failure: RestoreFailure | null; // set when the restore stopped part way
+}
+
+// The text is not a backup this version of the app can read
+class InvalidBackupError extends Error {
+  constructor(detail: string) {
+    super(`This is not a valid TrackYourMeds backup: ${detail}`);
+    this.name = 'InvalidBackupError';
+  }
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const countTree = (symptom: Symptom): RestoreCounts => {
+  const medications = symptom.stages.flatMap(stage => stage.medication);
+  return {
+    symptoms: 1,
+    stages: symptom.stages.length,
+    medications: medications.length,
+    intakes: medications.reduce((sum, medication) => sum + medication.intakes.length, 0),
+  };
+};
+
+const addCounts = (a: RestoreCounts, b: RestoreCounts): RestoreCounts => ({
+  symptoms: a.symptoms + b.symptoms,
+  stages: a.stages + b.stages,
+  medications: a.medications + b.medications,
+  intakes: a.intakes + b.intakes,
+});
+
+const NO_COUNTS: RestoreCounts = { symptoms: 0, stages: 0, medications: 0, intakes: 0 };
+
+export function createBackup(symptoms: Symptom[], now: Date = new Date()): BackupFile {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: now.toISOString(), symptoms };
+}
+
+export function serializeBackup(backup: BackupFile): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+// Checks the format and version before trusting any of the contents
+export function parseBackup(text: string): BackupFile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new InvalidBackupError('the text is not JSON');
+  }
+  if (typeof data !== 'object' || data === null || data.format !== BACKUP_FORMAT) {
+    throw new InvalidBackupError('the file was not created by this app');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new InvalidBackupError(`version ${data.version} needs a newer version of the app`);
+  }
+
+  try {
+    return {
+      format: BACKUP_FORMAT,
+      version: data.version,
+      createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+      symptoms: parseSymptoms(data.symptoms),
+    };
+  } catch (error) {
+    if (error instanceof InvalidResponseError) {
+      throw new InvalidBackupError(`${error.path ?? 'the file'} is damaged`);
+    }
+    throw error;
+  }
+}
+
+// The dry run: which symptoms would be created and which already exist by name
+export function planRestore(backup: BackupFile, existing: Symptom[]): RestorePlan {
+  const taken = new Map(existing.map(symptom => [normalizeName(symptom.name), symptom]));
+  const items = backup.symptoms.map(symptom => {
+    const duplicateOf = taken.get(normalizeName(symptom.name)) ?? null;
+    // A name repeated within the backup is only restored once
+    taken.set(normalizeName(symptom.name), duplicateOf ?? symptom);
+    return { symptom, duplicateOf, counts: countTree(symptom) };
+  });
+
+  return {
+    items,
+    toCreate: items.filter(item => !item.duplicateOf).reduce((sum, item) => addCounts(sum, item.counts), NO_COUNTS),
+    skipped: items.filter(item => item.duplicateOf).length,
+  };
+}
+
+// Replays the plan through the API: each symptom with its stages and medications first,
+// then its intakes against the new medication ids. Works offline through the mutation queue.
+export async function restoreBackup(plan: RestorePlan): Promise<RestoreResult> {
+  const result: RestoreResult = {
+    created: NO_COUNTS,
+    symptomIds: new Map(),
+    stageIds: new Map(),
+    medicationIds: new Map(),
+    failure: null,
+  };
+
+  // Stops at the first failure and returns what was created up to there
+  for (const { symptom, duplicateOf, counts } of plan.items) {
+    if (duplicateOf) {
+      continue;
+    }
+    let created: Symptom;
+    try {
+      created = await apiService.createSymptom({
+        name: symptom.name,
+        isActive: symptom.isActive,
+        stages: symptom.stages.map(stage => ({
+          name: stage.name,
+          medication: stage.medication.map(medication => ({
+            name: medication.name,
+            intervalHours: medication.intervalHours,
+            totalDays: medication.totalDays,
+            quantityMg: medication.quantityMg,
+            formularyId: medication.formularyId,
+          })),
+        })),
+      });
+    } catch (error) {
+      result.failure = { symptomName: symptom.name, symptomCreated: false, missingIntakes: 0, error };
+      return result;
+    }
+    result.symptomIds.set(symptom.id, created.id);
+
+    // The server keeps stages and medications in the order they were sent. One it left out
+    // fails the symptom, but the doses of the others are still restored.
+    let intakes = 0;
+    let missingPath: string | null = null;
+    try {
+      for (const [stageIndex, stage] of symptom.stages.entries()) {
+        const createdStage = created.stages[stageIndex];
+        if (!createdStage) {
+          missingPath ??= `stages[${stageIndex}]`;
+          continue;
+        }
+        result.stageIds.set(stage.id, createdStage.id);
+        for (const [medicationIndex, medication] of stage.medication.entries()) {
+          const createdMedication = createdStage.medication[medicationIndex];
+          if (!createdMedication) {
+            missingPath ??= `stages[${stageIndex}].medication[${medicationIndex}]`;
+            continue;
+          }
+          result.medicationIds.set(medication.id, createdMedication.id);
+          for (const intake of medication.intakes) {
+            await apiService.createIntake({
+              medicationId: createdMedication.id,
+              scheduledTime: intake.scheduledTime,
+              actualTime: intake.actualTime,
+            });
+            intakes++;
+          }
+        }
+      }
+      if (missingPath) {
+        throw new InvalidResponseError(missingPath, 'was not in the created symptom');
+      }
+    } catch (error) {
+      result.failure = {
+        symptomName: symptom.name,
+        symptomCreated: true,
+        missingIntakes: counts.intakes - intakes,
+        error,
+      };
+    }
+
+    result.created = addCounts(result.created, { ...countTree(created), intakes });
+    if (result.failure) {
+      return result;
+    }
+  }
+
+  return result;
+}
+
+export { InvalidBackupError };
+export type { BackupFile, RestoreCounts, RestorePlanItem, RestorePlan, RestoreFailure, RestoreResult };
@@ -0,0 +1,115 @@
+// src/services/doseActions.ts
+import { apiService, type Intake, type Medication } from './api';
+import { STORAGE_KEYS, loadJSON, removeItem, saveJSON } from './storage';
+
+const SNOOZE_MINUTES = 15;
+
+interface Snooze {
+  scheduledTime: string;
+  until: Date;
+}
+
+// Medication id -> snooze as written to storage
+type StoredSnoozes = Record<number, { scheduledTime: string; until: string }>;
+
+// Snoozes push a due dose back without logging anything. They are kept on the device
+// so a restart doesn't drop the reminder for a snoozed dose.
+const snoozes = new Map<number, Snooze>();
+let snoozesRestored: Promise<void> | null = null;
+
+function saveSnoozes(): Promise<void> {
+  const stored: StoredSnoozes = {};
+  snoozes.forEach((snooze, medicationId) => {
+    stored[medicationId] = { scheduledTime: snooze.scheduledTime, until: snooze.until.toISOString() };
+  });
+  return saveJSON(STORAGE_KEYS.SNOOZES, stored);
+}
+
+function clearSnooze(medicationId: number) {
+  if (snoozes.delete(medicationId)) {
+    saveSnoozes();
+  }
+}
+
+// Load the snoozes saved before the app was last closed; ones set since then win
+export function restoreSnoozes(): Promise<void> {
+  if (!snoozesRestored) {
+    snoozesRestored = loadJSON<StoredSnoozes>(STORAGE_KEYS.SNOOZES, {}).then(stored => {
+      for (const [medicationId, snooze] of Object.entries(stored)) {
+        if (!snoozes.has(Number(medicationId))) {
+          snoozes.set(Number(medicationId), { scheduledTime: snooze.scheduledTime, until: new Date(snooze.until) });
+        }
+      }
+    });
+  }
+  return snoozesRestored;
+}
+
+// Snoozes belong to the signed-in user
+export async function clearSnoozes(): Promise<void> {
+  snoozes.clear();
+  snoozesRestored = null;
+  await removeItem(STORAGE_KEYS.SNOOZES);
+}
+
+// Record that the dose scheduled at `scheduledTime` was taken now
+export function logDoseTaken(medication: Medication, scheduledTime: Date): Promise<Intake> {
+  clearSnooze(medication.id);
+  return apiService.createIntake({
+    medicationId: medication.id,
+    scheduledTime: scheduledTime.toISOString(),
+    actualTime: new Date().toISOString(),
+  });
+}
+
+// Record that the dose scheduled at `scheduledTime` was deliberately skipped
+export function logDoseSkipped(medication: Medication, scheduledTime: Date): Promise<Intake> {
+  clearSnooze(medication.id);
+  return apiService.createIntake({
+    medicationId: medication.id,
+    scheduledTime: scheduledTime.toISOString(),
+    actualTime: null,
+  });
+}
+
+// Push the dose scheduled at `scheduledTime` back by a few minutes
+export function snoozeDose(
+  medication: Medication,
+  scheduledTime: Date,
+  minutes: number = SNOOZE_MINUTES
+): Date {
+  const until = new Date(Date.now() + minutes * 60 * 1000);
+  snoozes.set(medication.id, { scheduledTime: scheduledTime.toISOString(), until });
+  saveSnoozes();
+  return until;
+}
+
+// Returns the snooze end time if the given dose is currently snoozed
+export function getSnoozedUntil(medicationId: number, scheduledTime: Date, now: Date = new Date()): Date | null {
+  const snooze = snoozes.get(medicationId);
+  if (!snooze || snooze.scheduledTime !== scheduledTime.toISOString()) {
+    return null;
+  }
+  if (snooze.until.getTime() <= now.getTime()) {
+    clearSnooze(medicationId);
+    return null;
+  }
+  return snooze.until;
+}
+
+// Correct a logged intake, e.g. turn a skipped dose into a taken one
+export function correctIntake(intake: Intake, actualTime: Date | null): Promise<void> {
+  return apiService.updateIntake(intake.id, {
+    ...intake,
+    actualTime: actualTime ? actualTime.toISOString() : null,
+  });
+}
+
+// Remove a logged intake entirely
+export function undoIntake(intake: Intake): Promise<void> {
+  return apiService.deleteIntake(intake.id);
+}
+
+export function isSkipped(intake: Intake): boolean {
+  return !intake.actualTime;
+}
@@ -0,0 +1,51 @@
+// src/services/environments.ts
+import { apiService } from './api';
+import { STORAGE_KEYS, loadJSON, saveJSON } from './storage';
+import { DEMO_BASE_URL } from './fakeBackend';
+
+interface ServerEnvironment {
+  id: string;
+  name: string;
+  url: string;
+  isBuiltIn?: boolean;
+}
+
+// Accepts "host:port/api" style input and returns a clean URL, or null if it isn't one
+export function normalizeServerURL(input: string): string | null {
+  let url = input.trim();
+  if (!url) {
+    return null;
+  }
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(url) && !/^https?:\/\//i.test(url)) {
+    return null;
+  }
+  if (!/^https?:\/\//i.test(url)) {
+    url = `http://${url}`;
+  }
+  url = url.replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/]+(\/\S*)?$/i.test(url) ? url : null;
+}
+
+// The build-time server and the demo are always listed first and can't be removed
+export async function loadEnvironments(): Promise<ServerEnvironment[]> {
+  const saved = await loadJSON<ServerEnvironment[]>(STORAGE_KEYS.SERVER_ENVIRONMENTS, []);
+  return [
+    { id: 'default', name: 'Default', url: apiService.getDefaultBaseURL(), isBuiltIn: true },
+    { id: 'demo', name: 'Demo (sample data, no server)', url: DEMO_BASE_URL, isBuiltIn: true },
+    ...saved,
+  ];
+}
+
+export async function addEnvironment(name: string, url: string): Promise<ServerEnvironment> {
+  const saved = await loadJSON<ServerEnvironment[]>(STORAGE_KEYS.SERVER_ENVIRONMENTS, []);
+  const environment: ServerEnvironment = { id: `${Date.now()}`, name: name.trim(), url };
+  await saveJSON(STORAGE_KEYS.SERVER_ENVIRONMENTS, [...saved, environment]);
+  return environment;
+}
+
+export async function removeEnvironment(id: string): Promise<void> {
+  const saved = await loadJSON<ServerEnvironment[]>(STORAGE_KEYS.SERVER_ENVIRONMENTS, []);
+  await saveJSON(STORAGE_KEYS.SERVER_ENVIRONMENTS, saved.filter(environment => environment.id !== id));
+}
+
+export type { ServerEnvironment };
@@ -0,0 +1,172 @@
+// src/services/errors.ts
+import { isRetryableStatus } from './retryPolicy';
+
+// Field name -> messages, as returned in the `errors` of an ASP.NET validation response
+type FieldErrors = Record<string, string[]>;
+
+interface FieldPath {
+  stageIndex: number | null;
+  medIndex: number | null;
+  field: string;
+}
+
+// Base class for everything ApiService throws
+class ApiError extends Error {
+  readonly status: number | null;
+  readonly isNetworkError: boolean;
+  readonly isTimeout: boolean;
+  readonly isRetryable: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; isNetworkError?: boolean; isTimeout?: boolean; isRetryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? null;
+    this.isNetworkError = options.isNetworkError ?? false;
+    this.isTimeout = options.isTimeout ?? false;
+    this.isRetryable = options.isRetryable ?? false;
+  }
+}
+
+// The server could not be reached at all
+class NetworkError extends ApiError {
+  constructor(message: string = 'Unable to connect to server. Please check your connection.') {
+    super(message, { isNetworkError: true, isRetryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+class TimeoutError extends ApiError {
+  constructor(message: string = 'Request timed out. Please try again.') {
+    super(message, { isNetworkError: true, isTimeout: true, isRetryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+// The caller aborted the request, e.g. because the screen that asked for it went away
+class RequestCancelledError extends ApiError {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// The server answered, but not with data in the shape the app understands
+class InvalidResponseError extends ApiError {
+  readonly path: string | null;
+
+  constructor(path: string | null, detail: string) {
+    super(`Unexpected response from server: ${path ? `${path} ` : ''}${detail}`);
+    this.name = 'InvalidResponseError';
+    this.path = path;
+  }
+}
+
+// The server answered with a non-2xx status
+class HttpError extends ApiError {
+  readonly body: string;
+
+  constructor(status: number, body: string, message?: string) {
+    super(message ?? `HTTP ${status}: ${body}`, {
+      status,
+      isRetryable: isRetryableStatus(status),
+    });
+    this.name = 'HttpError';
+    this.body = body;
+  }
+}
+
+// 400/422 with per-field messages from the server
+class ValidationError extends HttpError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(status: number, body: string, fieldErrors: FieldErrors, message?: string) {
+    super(status, body, message);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+class SessionExpiredError extends ApiError {
+  constructor() {
+    super('Your session has expired. Please sign in again.', { status: 401 });
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// Build the right error for a failed response from its status and body text
+export function createHttpError(status: number, body: string): HttpError {
+  if (status === 400 || status === 422) {
+    try {
+      const problem = JSON.parse(body);
+      if (problem && typeof problem.errors === 'object' && problem.errors !== null) {
+        return new ValidationError(status, body, problem.errors, problem.title);
+      }
+    } catch {
+      // Not JSON; fall through to a plain HttpError
+    }
+  }
+  return new HttpError(status, body);
+}
+
+// Turns a server field name such as "Stages[0].Medication[1].QuantityMg" into indexes and a camelCase field
+export function parseFieldPath(path: string): FieldPath {
+  const stageMatch = path.match(/stages\[(\d+)\]/i);
+  const medMatch = path.match(/medications?\[(\d+)\]/i);
+  const lastSegment = path.replace(/^\$\.?/, '').split('.').pop() ?? path;
+  const field = lastSegment.replace(/\[\d+\]$/, '');
+
+  return {
+    stageIndex: stageMatch ? parseInt(stageMatch[1], 10) : null,
+    medIndex: medMatch ? parseInt(medMatch[1], 10) : null,
+    field: field.charAt(0).toLowerCase() + field.slice(1),
+  };
+}
+
+// A message that makes sense to the user for whatever went wrong
+export function describeApiError(error: unknown, action: string): string {
+  if (error instanceof TimeoutError) {
+    return `The server took too long to respond while trying to ${action}. Please try again.`;
+  }
+  if (error instanceof NetworkError) {
+    return `Couldn't reach the server to ${action}. Please check your connection and try again.`;
+  }
+  if (error instanceof SessionExpiredError) {
+    return error.message;
+  }
+  if (error instanceof InvalidResponseError) {
+    return `The server sent data this version of the app doesn't understand while trying to ${action}. Please make sure the app and server are up to date.`;
+  }
+  if (error instanceof ValidationError) {
+    const messages = Object.values(error.fieldErrors).flat();
+    return messages.length > 0
+      ? `Couldn't ${action}:\n${messages.join('\n')}`
+      : `Couldn't ${action}. Please check the details you entered.`;
+  }
+  if (error instanceof HttpError) {
+    if (error.status === 404) {
+      return `Couldn't ${action} because it no longer exists on the server.`;
+    }
+    if (error.status === 403) {
+      return `You don't have permission to ${action}.`;
+    }
+    if (error.isRetryable) {
+      return `The server had a problem while trying to ${action}. Please try again in a moment.`;
+    }
+  }
+  return `Failed to ${action}. Please try again.`;
+}
+
+export {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  InvalidResponseError,
+  HttpError,
+  ValidationError,
+  SessionExpiredError,
+};
+export type { FieldErrors, FieldPath };
@@ -0,0 +1,523 @@
+// src/services/fakeBackend.ts
+import type { Intake, Medication, Stage, Symptom } from './api';
+
+// Selecting this server runs the app against the in-process backend below
+export const DEMO_BASE_URL = 'demo://local';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface FakeBackendOptions {
+  latencyMs?: number; // simulated network delay
+  seed?: (now: Date) => Symptom[];
+  requireAuth?: boolean; // answer 401 to data requests without a current access token, like the real server
+}
+
+// A symptom tree that looks like real use: one course under way, one finished, one inactive
+export function createSeedData(now: Date = new Date()): Symptom[] {
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS).toISOString();
+
+  return [
+    {
+      id: 1,
+      name: 'Migraine',
+      isActive: true,
+      stages: [
+        {
+          id: 1,
+          name: 'Early',
+          symptomId: 1,
+          symptom: 'Migraine',
+          medication: [
+            {
+              id: 1,
+              name: 'Ibuprofen',
+              formularyId: 'ibuprofen',
+              intervalHours: 8,
+              totalDays: 3,
+              quantityMg: 400,
+              treatmentId: null,
+              stageId: 1,
+              stage: 'Early',
+              intakes: [
+                { id: 1, medicationId: 1, scheduledTime: hoursAgo(17), actualTime: hoursAgo(17), medication: 'Ibuprofen' },
+                { id: 2, medicationId: 1, scheduledTime: hoursAgo(9), actualTime: hoursAgo(8.5), medication: 'Ibuprofen' },
+              ],
+            },
+          ],
+        },
+        {
+          id: 2,
+          name: 'Severe',
+          symptomId: 1,
+          symptom: 'Migraine',
+          medication: [
+            {
+              id: 2,
+              name: 'Sumatriptan',
+              formularyId: 'sumatriptan',
+              intervalHours: 12,
+              totalDays: 2,
+              quantityMg: 50,
+              treatmentId: null,
+              stageId: 2,
+              stage: 'Severe',
+              intakes: [],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 2,
+      name: 'Sore Throat',
+      isActive: true,
+      stages: [
+        {
+          id: 3,
+          name: 'Mild',
+          symptomId: 2,
+          symptom: 'Sore Throat',
+          medication: [
+            {
+              id: 3,
+              name: 'Paracetamol',
+              formularyId: 'paracetamol',
+              intervalHours: 6,
+              totalDays: 2,
+              quantityMg: 500,
+              treatmentId: null,
+              stageId: 3,
+              stage: 'Mild',
+              intakes: [
+                { id: 3, medicationId: 3, scheduledTime: hoursAgo(30), actualTime: hoursAgo(30), medication: 'Paracetamol' },
+                { id: 4, medicationId: 3, scheduledTime: hoursAgo(24), actualTime: hoursAgo(23.5), medication: 'Paracetamol' },
+                { id: 5, medicationId: 3, scheduledTime: hoursAgo(18), actualTime: null, medication: 'Paracetamol' },
+                { id: 6, medicationId: 3, scheduledTime: hoursAgo(12), actualTime: hoursAgo(11), medication: 'Paracetamol' },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 3,
+      name: 'Seasonal Allergies',
+      isActive: false,
+      stages: [
+        {
+          id: 4,
+          name: 'Early',
+          symptomId: 3,
+          symptom: 'Seasonal Allergies',
+          medication: [
+            {
+              id: 4,
+              name: 'Cetirizine',
+              formularyId: 'cetirizine',
+              intervalHours: 24,
+              totalDays: 14,
+              quantityMg: 10,
+              treatmentId: null,
+              stageId: 4,
+              stage: 'Early',
+              intakes: [],
+            },
+          ],
+        },
+      ],
+    },
+  ];
+}
+
+// Stand-in for the TrackYourMeds server. Implements the routes ApiService uses and
+// answers through a fetch-compatible function, so it works in the app and in Jest.
+class FakeBackend {
+  private symptoms: Symptom[] = [];
+  private nextId = 1;
+  private latencyMs: number;
+  private seed: (now: Date) => Symptom[];
+  private requireAuth: boolean;
+  private accessTokens = new Set<string>();
+  private refreshTokens = new Set<string>();
+
+  constructor(options: FakeBackendOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+    this.seed = options.seed ?? createSeedData;
+    this.requireAuth = options.requireAuth ?? false;
+    this.reset();
+  }
+
+  // Back to the seed data, e.g. between tests
+  reset(now: Date = new Date()) {
+    this.symptoms = this.seed(now);
+    this.nextId = 1 + Math.max(0, ...this.allIds());
+    this.revokeSessions();
+  }
+
+  // Access tokens stop working; refresh tokens can still get new ones
+  expireAccessTokens() {
+    this.accessTokens.clear();
+  }
+
+  // Every session ends, as if the server signed everyone out
+  revokeSessions() {
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+  }
+
+  // Deep copy of the current data, for assertions
+  getSymptoms(): Symptom[] {
+    return clone(this.symptoms);
+  }
+
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined;
+    const authorization = new Headers(init.headers).get('Authorization');
+
+    await this.wait(init.signal);
+    const { status, body: responseBody } = this.handle(method, url, body, authorization);
+
+    if (responseBody === undefined) {
+      return new Response(null, { status });
+    }
+    return new Response(JSON.stringify(responseBody), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  private wait(signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abortError = () => new TypeError('Network request aborted');
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const timer = setTimeout(resolve, this.latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(abortError());
+      });
+    });
+  }
+
+  handle(method: string, url: string, body: any, authorization: string | null = null): FakeResponse {
+    // Routes are matched on the part after the base URL, ignoring case like ASP.NET does
+    const match = url.match(/\/(symptoms|medication|stages|intakes|auth)(\/[^?]*)?(\?.*)?$/i);
+    if (!match) {
+      return notFound();
+    }
+    const resource = match[1].toLowerCase();
+    const segments = (match[2] ?? '').split('/').filter(Boolean);
+    const accessToken = authorization?.replace(/^Bearer /i, '') ?? '';
+    if (this.requireAuth && resource !== 'auth' && !this.accessTokens.has(accessToken)) {
+      return unauthorized();
+    }
+
+    switch (resource) {
+      case 'symptoms':
+        return this.handleSymptoms(method, segments, body);
+      case 'medication':
+        return this.handleMedication(method, segments, body);
+      case 'stages':
+        return this.handleStages(method, segments, body);
+      case 'intakes':
+        return this.handleIntakes(method, segments, body);
+      default:
+        return this.handleAuth(method, segments, body);
+    }
+  }
+
+  private handleSymptoms(method: string, segments: string[], body: any): FakeResponse {
+    if (segments.length === 0) {
+      if (method === 'GET') {
+        return ok(this.symptoms);
+      }
+      if (method === 'POST') {
+        const errors = requireFields(body, ['name']);
+        if (errors) {
+          return errors;
+        }
+        const symptom = this.buildSymptom(body);
+        this.symptoms.push(symptom);
+        return created(symptom);
+      }
+      return methodNotAllowed();
+    }
+
+    const symptom = this.symptoms.find(s => s.id === Number(segments[0]));
+    if (!symptom) {
+      return notFound();
+    }
+    switch (method) {
+      case 'GET':
+        return ok(symptom);
+      case 'PUT':
+        symptom.name = body?.name ?? symptom.name;
+        symptom.isActive = body?.isActive ?? symptom.isActive;
+        return noContent();
+      case 'DELETE':
+        this.symptoms = this.symptoms.filter(s => s !== symptom);
+        return noContent();
+      default:
+        return methodNotAllowed();
+    }
+  }
+
+  private handleMedication(method: string, segments: string[], body: any): FakeResponse {
+    if (segments[0]?.toLowerCase() === 'stage' && method === 'GET') {
+      const stage = this.findStage(Number(segments[1]));
+      return stage ? ok(stage.medication) : notFound();
+    }
+    if (segments.length === 0) {
+      if (method !== 'POST') {
+        return methodNotAllowed();
+      }
+      const errors = requireFields(body, ['name', 'quantityMg', 'intervalHours', 'totalDays', 'stageId']);
+      if (errors) {
+        return errors;
+      }
+      const stage = this.findStage(body.stageId);
+      if (!stage) {
+        return notFound();
+      }
+      const medication = this.buildMedication(body, stage);
+      stage.medication.push(medication);
+      return created(medication);
+    }
+
+    const medication = this.findMedication(Number(segments[0]));
+    if (!medication) {
+      return notFound();
+    }
+    switch (method) {
+      case 'GET':
+        return ok(medication);
+      case 'PUT':
+        Object.assign(medication, pick(body, ['name', 'formularyId', 'quantityMg', 'intervalHours', 'totalDays']));
+        return noContent();
+      case 'DELETE': {
+        const stage = this.findStage(medication.stageId);
+        if (stage) {
+          stage.medication = stage.medication.filter(m => m !== medication);
+        }
+        return noContent();
+      }
+      default:
+        return methodNotAllowed();
+    }
+  }
+
+  private handleStages(method: string, segments: string[], body: any): FakeResponse {
+    if (segments.length === 0) {
+      if (method !== 'POST') {
+        return methodNotAllowed();
+      }
+      const errors = requireFields(body, ['name', 'symptomId']);
+      if (errors) {
+        return errors;
+      }
+      const symptom = this.symptoms.find(s => s.id === body.symptomId);
+      if (!symptom) {
+        return notFound();
+      }
+      const stage = this.buildStage(body, symptom);
+      symptom.stages.push(stage);
+      return created(stage);
+    }
+
+    const stage = this.findStage(Number(segments[0]));
+    if (!stage) {
+      return notFound();
+    }
+    switch (method) {
+      case 'GET':
+        return ok(stage);
+      case 'PUT':
+        stage.name = body?.name ?? stage.name;
+        return noContent();
+      case 'DELETE': {
+        const symptom = this.symptoms.find(s => s.id === stage.symptomId);
+        if (symptom) {
+          symptom.stages = symptom.stages.filter(s => s !== stage);
+        }
+        return noContent();
+      }
+      default:
+        return methodNotAllowed();
+    }
+  }
+
+  private handleIntakes(method: string, segments: string[], body: any): FakeResponse {
+    if (segments.length === 0) {
+      if (method !== 'POST') {
+        return methodNotAllowed();
+      }
+      const errors = requireFields(body, ['medicationId', 'scheduledTime']);
+      if (errors) {
+        return errors;
+      }
+      const medication = this.findMedication(body.medicationId);
+      if (!medication) {
+        return notFound();
+      }
+      const intake: Intake = {
+        id: this.nextId++,
+        medicationId: medication.id,
+        scheduledTime: body.scheduledTime,
+        actualTime: body.actualTime ?? null,
+        medication: medication.name,
+      };
+      medication.intakes.push(intake);
+      return created(intake);
+    }
+
+    const id = Number(segments[0]);
+    const medication = this.allMedications().find(m => m.intakes.some(i => i.id === id));
+    const intake = medication?.intakes.find(i => i.id === id);
+    if (!medication || !intake) {
+      return notFound();
+    }
+    switch (method) {
+      case 'GET':
+        return ok(intake);
+      case 'PUT':
+        Object.assign(intake, pick(body, ['scheduledTime', 'actualTime']));
+        return noContent();
+      case 'DELETE':
+        medication.intakes = medication.intakes.filter(i => i !== intake);
+        return noContent();
+      default:
+        return methodNotAllowed();
+    }
+  }
+
+  // Any credentials work; the demo has a single shared account
+  private handleAuth(method: string, segments: string[], body: any): FakeResponse {
+    if (method !== 'POST') {
+      return methodNotAllowed();
+    }
+    switch (segments[0]?.toLowerCase()) {
+      case 'login':
+        return ok(this.issueTokens(`demo-refresh-${this.nextId++}`));
+      case 'refresh':
+        if (this.requireAuth && !this.refreshTokens.has(body?.refreshToken)) {
+          return unauthorized();
+        }
+        return ok(this.issueTokens(body?.refreshToken ?? 'demo-refresh'));
+      case 'logout':
+        this.refreshTokens.delete(body?.refreshToken);
+        return noContent();
+      default:
+        return notFound();
+    }
+  }
+
+  private issueTokens(refreshToken: string) {
+    const accessToken = `demo-access-${this.nextId++}`;
+    this.accessTokens.add(accessToken);
+    this.refreshTokens.add(refreshToken);
+    return { accessToken, refreshToken };
+  }
+
+  private buildSymptom(data: any): Symptom {
+    const symptom: Symptom = { id: this.nextId++, name: data.name, isActive: data.isActive ?? true, stages: [] };
+    symptom.stages = (data.stages ?? []).map((stage: any) => this.buildStage(stage, symptom));
+    return symptom;
+  }
+
+  private buildStage(data: any, symptom: Symptom): Stage {
+    const stage: Stage = { id: this.nextId++, name: data.name, symptomId: symptom.id, symptom: symptom.name, medication: [] };
+    stage.medication = (data.medication ?? []).map((medication: any) => this.buildMedication(medication, stage));
+    return stage;
+  }
+
+  private buildMedication(data: any, stage: Stage): Medication {
+    return {
+      id: this.nextId++,
+      name: data.name,
+      intervalHours: data.intervalHours,
+      totalDays: data.totalDays,
+      quantityMg: data.quantityMg,
+      treatmentId: data.treatmentId ?? null,
+      formularyId: data.formularyId ?? null,
+      stageId: stage.id,
+      stage: stage.name,
+      intakes: [],
+    };
+  }
+
+  private findStage(id: number): Stage | undefined {
+    return this.symptoms.flatMap(s => s.stages).find(stage => stage.id === id);
+  }
+
+  private findMedication(id: number): Medication | undefined {
+    return this.allMedications().find(medication => medication.id === id);
+  }
+
+  private allMedications(): Medication[] {
+    return this.symptoms.flatMap(s => s.stages).flatMap(stage => stage.medication);
+  }
+
+  private allIds(): number[] {
+    const stages = this.symptoms.flatMap(s => s.stages);
+    const medications = this.allMedications();
+    return [
+      ...this.symptoms.map(s => s.id),
+      ...stages.map(s => s.id),
+      ...medications.map(m => m.id),
+      ...medications.flatMap(m => m.intakes).map(i => i.id),
+    ];
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function pick(source: any, fields: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  fields.forEach(field => {
+    if (source && source[field] !== undefined) {
+      result[field] = source[field];
+    }
+  });
+  return result;
+}
+
+// 400 in the ASP.NET ProblemDetails shape the real server uses
+function requireFields(body: any, fields: string[]): FakeResponse | null {
+  const errors: Record<string, string[]> = {};
+  fields.forEach(field => {
+    const value = body?.[field];
+    if (value === undefined || value === null || value === '') {
+      const name = field.charAt(0).toUpperCase() + field.slice(1);
+      errors[name] = [`The ${name} field is required.`];
+    }
+  });
+  if (Object.keys(errors).length === 0) {
+    return null;
+  }
+  return { status: 400, body: { title: 'One or more validation errors occurred.', status: 400, errors } };
+}
+
+// Responses are copies so callers can't reach into the backend's state
+const ok = (body: unknown): FakeResponse => ({ status: 200, body: clone(body) });
+const created = (body: unknown): FakeResponse => ({ status: 201, body: clone(body) });
+const noContent = (): FakeResponse => ({ status: 204 });
+const unauthorized = (): FakeResponse => ({ status: 401, body: { title: 'Unauthorized', status: 401 } });
+const notFound = (): FakeResponse => ({ status: 404, body: { title: 'Not Found', status: 404 } });
+const methodNotAllowed = (): FakeResponse => ({ status: 405, body: { title: 'Method Not Allowed', status: 405 } });
+
+// Shared instance behind DEMO_BASE_URL
+export const demoBackend = new FakeBackend({ latencyMs: 250 });
+
+export { FakeBackend };
+export type { FakeBackendOptions, FakeResponse };
@@ -0,0 +1,177 @@
+// src/services/logger.ts
+import { HttpError, InvalidResponseError } from './errors';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  scope: string;
+  message: string;
+  data?: string; // already redacted and serialized
+}
+
+interface LoggerConfig {
+  level: LogLevel;
+  redact: boolean;
+  console: boolean; // also print entries, e.g. to Metro; the buffer keeps them either way
+}
+
+interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const LOG_CONFIG = {
+  BUFFER_SIZE: 500,
+  MAX_DATA_LENGTH: 2000,
+  MAX_DEPTH: 10, // a symptom tree down to its intakes is 7 levels deep
+};
+
+// Fields that can identify a person or describe their health. Matched case-insensitively.
+const SENSITIVE_KEYS = [
+  'name',
+  'title',
+  'symptom',
+  'stage',
+  'stagename',
+  'medication',
+  'quantitymg',
+  'intervalhours',
+  'totaldays',
+  'scheduledtime',
+  'actualtime',
+  'notes',
+  'severity',
+  'email',
+  'password',
+  'accesstoken',
+  'refreshtoken',
+  'authorization',
+];
+
+const REDACTED = '[redacted]';
+
+let config: LoggerConfig = {
+  level: __DEV__ ? 'debug' : 'info',
+  redact: true,
+  console: __DEV__,
+};
+
+const buffer: LogEntry[] = [];
+
+export function configureLogger(changes: Partial<LoggerConfig>) {
+  config = { ...config, ...changes };
+}
+
+export function getLoggerConfig(): LoggerConfig {
+  return { ...config };
+}
+
+// Replace sensitive fields anywhere in the value; lists keep their length so counts stay useful
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (value instanceof Error) {
+    return describeError(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= LOG_CONFIG.MAX_DEPTH) {
+    return '[…]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  // Only plain values are replaced; nested objects such as Stage.medication are walked instead
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const isSensitive = config.redact && SENSITIVE_KEYS.includes(key.toLowerCase());
+    result[key] = isSensitive && field !== null && typeof field !== 'object' ? REDACTED : redact(field, depth + 1);
+  }
+  return result;
+}
+
+// HTTP errors carry the server's response body and invalid responses quote the offending
+// value, so for those only the type, status and path are kept when redacting
+function describeError(error: Error): Record<string, unknown> {
+  const status = (error as { status?: unknown }).status;
+  const hidesMessage = error instanceof HttpError || error instanceof InvalidResponseError;
+  return {
+    name: error.name,
+    ...(typeof status === 'number' ? { status } : {}),
+    ...(error instanceof InvalidResponseError && error.path ? { path: error.path } : {}),
+    ...(config.redact && hidesMessage ? {} : { message: error.message }),
+  };
+}
+
+function serialize(data: unknown): string {
+  let text: string;
+  try {
+    text = JSON.stringify(redact(data)) ?? String(data);
+  } catch {
+    text = String(data);
+  }
+  return text.length > LOG_CONFIG.MAX_DATA_LENGTH ? `${text.slice(0, LOG_CONFIG.MAX_DATA_LENGTH)}…` : text;
+}
+
+function write(level: LogLevel, scope: string, message: string, data: unknown) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[config.level]) {
+    return;
+  }
+
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    scope,
+    message,
+    ...(data !== undefined ? { data: serialize(data) } : {}),
+  };
+  buffer.push(entry);
+  if (buffer.length > LOG_CONFIG.BUFFER_SIZE) {
+    buffer.shift();
+  }
+
+  if (config.console) {
+    const line = `[${scope}] ${message}`;
+    const output = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+    if (entry.data !== undefined) {
+      output(line, entry.data);
+    } else {
+      output(line);
+    }
+  }
+}
+
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, data) => write('debug', scope, message, data),
+    info: (message, data) => write('info', scope, message, data),
+    warn: (message, data) => write('warn', scope, message, data),
+    error: (message, data) => write('error', scope, message, data),
+  };
+}
+
+// Oldest first
+export function getLogEntries(): LogEntry[] {
+  return [...buffer];
+}
+
+export function clearLogEntries() {
+  buffer.length = 0;
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+  const level = entry.level.toUpperCase().padEnd(5);
+  return `${entry.timestamp} ${level} [${entry.scope}] ${entry.message}${entry.data !== undefined ? ` ${entry.data}` : ''}`;
+}
+
+// Plain-text dump for attaching to a bug report
+export function exportLogs(): string {
+  return getLogEntries().map(formatLogEntry).join('\n');
+}
+
+export type { LogLevel, LogEntry, Logger, LoggerConfig };
@@ -0,0 +1,214 @@
+// src/services/offlineQueue.ts
+import { STORAGE_KEYS, loadJSON, saveJSON } from './storage';
+import { createLogger } from './logger';
+
+const log = createLogger('Queue');
+
+type MutationMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface QueuedMutation {
+  id: string;
+  method: MutationMethod;
+  endpoint: string;
+  body?: any;
+  idempotencyKey?: string;
+  // Locally built result handed out while offline; its negative ids get mapped to the real ones on replay
+  optimistic?: any;
+  createdAt: string;
+}
+
+interface PersistedQueue {
+  items: QueuedMutation[];
+  idMap: Record<string, number>;
+  // Temporary ids of creates the server rejected; they will never get a real id
+  droppedIds?: number[];
+}
+
+interface ReplayResult {
+  replayed: number;
+  dropped: number;
+  orphaned: number; // of the dropped, those that depended on a rejected create
+  remaining: number;
+}
+
+const ID_FIELDS = ['id', 'medicationId', 'stageId', 'symptomId'];
+const NESTED_FIELDS = ['stages', 'medication', 'intakes'];
+
+let lastTempId = 0;
+
+// Temporary ids are negative so they can never clash with ids handed out by the server
+export function nextTempId(): number {
+  lastTempId = Math.min(lastTempId - 1, -Date.now());
+  return lastTempId;
+}
+
+// Durable, ordered queue of writes made while the backend was unreachable
+class MutationQueue {
+  private state: PersistedQueue = { items: [], idMap: {} };
+  private loaded: Promise<void> | null = null;
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = loadJSON<PersistedQueue>(STORAGE_KEYS.MUTATION_QUEUE, this.state).then(state => {
+        this.state = state;
+      });
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return saveJSON(STORAGE_KEYS.MUTATION_QUEUE, this.state);
+  }
+
+  async size(): Promise<number> {
+    await this.load();
+    return this.state.items.length;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.state = { items: [], idMap: {} };
+    await this.persist();
+  }
+
+  async enqueue(mutation: Omit<QueuedMutation, 'id' | 'createdAt'>): Promise<void> {
+    await this.load();
+    this.state.items.push({
+      ...mutation,
+      id: `${Date.now()}-${this.state.items.length}`,
+      createdAt: new Date().toISOString(),
+    });
+    await this.persist();
+  }
+
+  // Send queued mutations oldest first. Stops at the first retryable failure so
+  // order is kept; mutations the server rejects outright are dropped.
+  async replay(
+    send: (mutation: QueuedMutation) => Promise<any>,
+    isRetryable: (error: unknown) => boolean
+  ): Promise<ReplayResult> {
+    await this.load();
+    let replayed = 0;
+    let dropped = 0;
+    let orphaned = 0;
+
+    while (this.state.items.length > 0) {
+      const queued = this.state.items[0];
+      if (this.referencesDroppedIds(queued)) {
+        log.warn(`Dropping ${queued.method} ${queued.endpoint}: it depends on a change the server rejected`);
+        this.dropIds(queued.optimistic);
+        dropped++;
+        orphaned++;
+        this.state.items.shift();
+        await this.persist();
+        continue;
+      }
+
+      const mutation = this.resolveIds(queued);
+      try {
+        const result = await send(mutation);
+        if (mutation.optimistic && result) {
+          this.mapIds(mutation.optimistic, result);
+        }
+        replayed++;
+      } catch (error) {
+        if (isRetryable(error)) {
+          break;
+        }
+        log.error(`Dropping ${mutation.method} ${mutation.endpoint}`, error);
+        this.dropIds(mutation.optimistic);
+        dropped++;
+      }
+      this.state.items.shift();
+      await this.persist();
+    }
+
+    if (this.state.items.length === 0 && (Object.keys(this.state.idMap).length > 0 || this.state.droppedIds)) {
+      this.state = { items: [], idMap: {} };
+      await this.persist();
+    }
+
+    return { replayed, dropped, orphaned, remaining: this.state.items.length };
+  }
+
+  // Remember the temporary ids a rejected create handed out, including those of nested records
+  private dropIds(optimistic: any) {
+    const ids: number[] = [];
+    const collect = (value: any) => {
+      if (!value || typeof value !== 'object') {
+        return;
+      }
+      if (typeof value.id === 'number' && value.id < 0) {
+        ids.push(value.id);
+      }
+      NESTED_FIELDS.forEach(field => Array.isArray(value[field]) && value[field].forEach(collect));
+    };
+    collect(optimistic);
+    if (ids.length > 0) {
+      this.state.droppedIds = [...(this.state.droppedIds ?? []), ...ids];
+    }
+  }
+
+  private referencesDroppedIds(mutation: QueuedMutation): boolean {
+    const dropped = new Set(this.state.droppedIds ?? []);
+    if (dropped.size === 0) {
+      return false;
+    }
+    const inEndpoint = [...mutation.endpoint.matchAll(/\/(-\d+)(?=\/|$)/g)].some(match => dropped.has(Number(match[1])));
+    const inBody = (value: any): boolean => {
+      if (Array.isArray(value)) {
+        return value.some(inBody);
+      }
+      if (!value || typeof value !== 'object') {
+        return false;
+      }
+      return Object.entries(value).some(([key, field]) =>
+        ID_FIELDS.includes(key) && typeof field === 'number' ? dropped.has(field) : inBody(field)
+      );
+    };
+    return inEndpoint || inBody(mutation.body);
+  }
+
+  // Swap temporary ids for the real ones in the endpoint and body
+  private resolveIds(mutation: QueuedMutation): QueuedMutation {
+    const { idMap } = this.state;
+    const endpoint = mutation.endpoint.replace(/\/(-\d+)(?=\/|$)/g, (match, tempId) =>
+      idMap[tempId] !== undefined ? `/${idMap[tempId]}` : match
+    );
+    return { ...mutation, endpoint, body: this.replaceIds(mutation.body) };
+  }
+
+  private replaceIds(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.replaceIds(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    const result: any = {};
+    for (const [key, field] of Object.entries(value)) {
+      result[key] = ID_FIELDS.includes(key) && typeof field === 'number' && this.state.idMap[field] !== undefined
+        ? this.state.idMap[field]
+        : this.replaceIds(field);
+    }
+    return result;
+  }
+
+  // Walk the optimistic and server objects side by side, recording real ids for temporary ones
+  private mapIds(optimistic: any, actual: any) {
+    if (!optimistic || !actual) {
+      return;
+    }
+    if (typeof optimistic.id === 'number' && optimistic.id < 0 && typeof actual.id === 'number') {
+      this.state.idMap[optimistic.id] = actual.id;
+    }
+    for (const field of NESTED_FIELDS) {
+      if (Array.isArray(optimistic[field]) && Array.isArray(actual[field])) {
+        optimistic[field].forEach((item: any, index: number) => this.mapIds(item, actual[field][index]));
+      }
+    }
+  }
+}
+
+export { MutationQueue };
+export type { QueuedMutation, MutationMethod, ReplayResult };
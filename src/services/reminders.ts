@@ -0,0 +1,148 @@
+// src/services/reminders.ts
+import type { Symptom } from './api';
+import { getDoseTimeline } from '../utils/doseSchedule';
+import { getSnoozedUntil } from './doseActions';
+import { createLogger } from './logger';
+
+const log = createLogger('Reminders');
+
+const REMINDER_CONFIG = {
+  HORIZON_HOURS: 48,
+  // iOS keeps at most 64 pending local notifications per app
+  MAX_REMINDERS: 64,
+};
+
+interface Reminder {
+  id: string;
+  medicationId: number;
+  fireAt: Date;
+  title: string;
+  body: string;
+}
+
+// Delivers reminders to the user. The scheduler only decides *when* to remind;
+// platform notification libraries plug in by implementing this interface.
+interface NotificationAdapter {
+  schedule(reminder: Reminder): Promise<void>;
+  cancel(reminderId: string): Promise<void>;
+}
+
+interface BuildRemindersOptions {
+  horizonHours?: number;
+  maxReminders?: number;
+  snoozedUntil?: (medicationId: number, scheduledTime: Date) => Date | null;
+}
+
+// Turns the active medications into concrete reminder times within the horizon
+export function buildReminders(
+  symptoms: Symptom[],
+  now: Date = new Date(),
+  options: BuildRemindersOptions = {}
+): Reminder[] {
+  const {
+    horizonHours = REMINDER_CONFIG.HORIZON_HOURS,
+    maxReminders = REMINDER_CONFIG.MAX_REMINDERS,
+    snoozedUntil = () => null,
+  } = options;
+  const horizon = now.getTime() + horizonHours * 60 * 60 * 1000;
+  const reminders: Reminder[] = [];
+
+  for (const symptom of symptoms.filter(s => s.isActive)) {
+    for (const stage of symptom.stages ?? []) {
+      for (const medication of stage.medication ?? []) {
+        for (const dose of getDoseTimeline(medication, now)) {
+          if (dose.status !== 'scheduled') {
+            continue;
+          }
+
+          // A dose that is already due only gets a reminder if it was snoozed
+          const fireAt = dose.time.getTime() > now.getTime()
+            ? dose.time
+            : snoozedUntil(medication.id, dose.time);
+          if (!fireAt || fireAt.getTime() > horizon) {
+            continue;
+          }
+
+          reminders.push({
+            id: `${medication.id}-${dose.time.getTime()}`,
+            medicationId: medication.id,
+            fireAt,
+            title: `Time for ${medication.name}`,
+            body: `${medication.quantityMg}mg for ${symptom.name} (${stage.name})`,
+          });
+        }
+      }
+    }
+  }
+
+  return reminders
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, maxReminders);
+}
+
+// Default adapter used until a platform notification library is wired in
+class LoggingNotificationAdapter implements NotificationAdapter {
+  async schedule(reminder: Reminder): Promise<void> {
+    log.debug(`Scheduled ${reminder.id} at ${reminder.fireAt.toISOString()}`, { title: reminder.title });
+  }
+
+  async cancel(reminderId: string): Promise<void> {
+    log.debug(`Cancelled ${reminderId}`);
+  }
+}
+
+class ReminderScheduler {
+  private adapter: NotificationAdapter;
+  private scheduled = new Map<string, Reminder>();
+  private lastSymptoms: Symptom[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(adapter: NotificationAdapter = new LoggingNotificationAdapter()) {
+    this.adapter = adapter;
+  }
+
+  setAdapter(adapter: NotificationAdapter) {
+    this.adapter = adapter;
+    this.scheduled.clear();
+  }
+
+  getScheduledReminders(): Reminder[] {
+    return [...this.scheduled.values()].sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  }
+
+  // Bring the pending reminders in line with the given symptom tree. Without
+  // arguments the last known tree is reused, e.g. after a dose was snoozed.
+  reschedule(symptoms: Symptom[] = this.lastSymptoms, now: Date = new Date()): Promise<void> {
+    this.lastSymptoms = symptoms;
+    // Run one reschedule at a time so overlapping calls can't double-book reminders
+    this.queue = this.queue
+      .then(() => this.apply(buildReminders(symptoms, now, { snoozedUntil: getSnoozedUntil })))
+      .catch(error => log.error('Failed to reschedule', error));
+    return this.queue;
+  }
+
+  private async apply(reminders: Reminder[]): Promise<void> {
+    const next = new Map(reminders.map(reminder => [reminder.id, reminder]));
+
+    for (const [id, reminder] of this.scheduled) {
+      const replacement = next.get(id);
+      if (!replacement || replacement.fireAt.getTime() !== reminder.fireAt.getTime()) {
+        await this.adapter.cancel(id);
+        this.scheduled.delete(id);
+      }
+    }
+
+    for (const [id, reminder] of next) {
+      if (!this.scheduled.has(id)) {
+        await this.adapter.schedule(reminder);
+        this.scheduled.set(id, reminder);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const reminderScheduler = new ReminderScheduler();
+
+export { ReminderScheduler, LoggingNotificationAdapter };
+export type { Reminder, NotificationAdapter, BuildRemindersOptions };
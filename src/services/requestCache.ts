@@ -0,0 +1,152 @@
+// src/services/requestCache.ts
+import { RequestCancelledError } from './errors';
+import { createLogger } from './logger';
+
+const log = createLogger('Cache');
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+interface CacheReadOptions {
+  maxAge: number;
+  signal?: AbortSignal;
+  forceRefresh?: boolean; // wait for fresh data even if something is cached
+}
+
+type CacheListener = (data: unknown) => void;
+
+// The fetcher is handed a signal that fires once nobody is waiting for the result any more
+type CacheFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number; // callers still waiting; one without a signal keeps the request alive
+}
+
+// Keeps GET results in memory. Fresh entries are returned as-is, stale ones are
+// returned immediately while a background request refreshes them, and callers
+// asking for the same key at the same time share one request. The request is
+// only cancelled once every caller waiting for it has cancelled.
+class RequestCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, InFlightRequest>();
+  private listeners = new Map<string, Set<CacheListener>>();
+
+  peek<T>(key: string): T | undefined {
+    return this.entries.get(key)?.data as T | undefined;
+  }
+
+  async get<T>(key: string, fetcher: CacheFetcher<T>, options: CacheReadOptions): Promise<T> {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (entry && !options.forceRefresh) {
+      if (now - entry.fetchedAt > options.maxAge) {
+        // Errors here surface on the next read; the caller already has data to show
+        this.join<T>(key, this.revalidate(key, fetcher)).catch(error =>
+          log.warn(`Background refresh of ${key} failed`, error)
+        );
+      }
+      return entry.data as T;
+    }
+
+    return this.join<T>(key, this.revalidate(key, fetcher), options.signal);
+  }
+
+  // Start a request for the key unless one is already running
+  private revalidate<T>(key: string, fetcher: CacheFetcher<T>): InFlightRequest {
+    const running = this.inFlight.get(key);
+    if (running) {
+      return running;
+    }
+
+    const controller = new AbortController();
+    const request: InFlightRequest = { promise: Promise.resolve(), controller, waiters: 0 };
+    request.promise = fetcher(controller.signal)
+      .then(data => {
+        // A write may have invalidated the key while this request was running
+        if (this.inFlight.get(key) === request) {
+          this.set(key, data);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // Wait for a shared request; aborting the signal stops this caller waiting and
+  // cancels the request itself when it was the last one waiting
+  private join<T>(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<T> {
+    request.waiters++;
+    if (!signal) {
+      return request.promise as Promise<T>;
+    }
+    if (signal.aborted) {
+      this.leave(key, request);
+      return Promise.reject(new RequestCancelledError());
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new RequestCancelledError());
+        this.leave(key, request);
+      };
+      signal.addEventListener('abort', onAbort);
+      (request.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private leave(key: string, request: InFlightRequest) {
+    request.waiters--;
+    if (request.waiters > 0) {
+      return;
+    }
+    if (this.inFlight.get(key) === request) {
+      this.inFlight.delete(key);
+    }
+    request.controller.abort();
+  }
+
+  set(key: string, data: unknown) {
+    this.entries.set(key, { data, fetchedAt: Date.now() });
+    this.listeners.get(key)?.forEach(listener => listener(data));
+  }
+
+  // Drop matching entries so the next read goes to the server
+  invalidate(match: (key: string) => boolean) {
+    for (const key of [...this.entries.keys(), ...this.inFlight.keys()]) {
+      if (match(key)) {
+        this.entries.delete(key);
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  // Called whenever the key gets new data; returns an unsubscribe function
+  subscribe(key: string, listener: CacheListener): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+}
+
+export { RequestCache };
+export type { CacheReadOptions, CacheFetcher };
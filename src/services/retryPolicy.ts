@@ -0,0 +1,55 @@
+// src/services/retryPolicy.ts
+
+const RETRY_POLICY = {
+  BASE_DELAY: 500,
+  MAX_DELAY: 10000,
+  // Never wait longer than this even if the server asks us to
+  MAX_RETRY_AFTER: 30000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// A request may be sent again only if repeating it can't create a second record.
+// POSTs qualify when they carry an Idempotency-Key the server de-duplicates on.
+export function canRetryRequest(method: string, headers: Record<string, string> = {}): boolean {
+  if (IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return true;
+  }
+  return Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Exponential backoff with full jitter; a Retry-After from the server takes precedence
+export function getRetryDelay(
+  attempt: number,
+  retryAfter: string | null = null,
+  random: () => number = Math.random
+): number {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== null) {
+    return Math.min(requested, RETRY_POLICY.MAX_RETRY_AFTER);
+  }
+  const ceiling = Math.min(RETRY_POLICY.MAX_DELAY, RETRY_POLICY.BASE_DELAY * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+export function createIdempotencyKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
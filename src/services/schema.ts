@@ -0,0 +1,117 @@
+// src/services/schema.ts
+import { InvalidResponseError } from './errors';
+import type { Intake, Medication, Stage, Symptom } from './api';
+
+// Checks an untrusted value at `path` and returns it in the shape the app expects
+type Parser<T> = (value: unknown, path: string) => T;
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new InvalidResponseError(path, `expected ${expected} but got ${describeValue(value)}`);
+}
+
+const number: Parser<number> = (value, path) =>
+  typeof value === 'number' && isFinite(value) ? value : fail(path, 'a number', value);
+
+const string: Parser<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'a string', value);
+
+const boolean: Parser<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'true or false', value);
+
+const dateString: Parser<string> = (value, path) => {
+  const text = string(value, path);
+  return isNaN(Date.parse(text)) ? fail(path, 'a date', value) : text;
+};
+
+function nullable<T>(parser: Parser<T>): Parser<T | null> {
+  return (value, path) => (value === null || value === undefined ? null : parser(value, path));
+}
+
+// Back-references such as Stage.symptom are often left out by the server; treat them as empty
+const optionalString: Parser<string> = (value, path) => nullable(string)(value, path) ?? '';
+
+// Missing or null lists become empty lists
+function arrayOf<T>(parser: Parser<T>): Parser<T[]> {
+  return (value, path) => {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      return fail(path, 'a list', value);
+    }
+    return value.map((item, index) => parser(item, `${path}[${index}]`));
+  };
+}
+
+function record(value: unknown, path: string): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : fail(path, 'an object', value);
+}
+
+const intake: Parser<Intake> = (value, path) => {
+  const data = record(value, path);
+  return {
+    id: number(data.id, `${path}.id`),
+    medicationId: number(data.medicationId, `${path}.medicationId`),
+    scheduledTime: dateString(data.scheduledTime, `${path}.scheduledTime`),
+    actualTime: nullable(dateString)(data.actualTime, `${path}.actualTime`),
+    medication: optionalString(data.medication, `${path}.medication`),
+  };
+};
+
+const medication: Parser<Medication> = (value, path) => {
+  const data = record(value, path);
+  return {
+    id: number(data.id, `${path}.id`),
+    name: string(data.name, `${path}.name`),
+    intervalHours: number(data.intervalHours, `${path}.intervalHours`),
+    totalDays: number(data.totalDays, `${path}.totalDays`),
+    quantityMg: number(data.quantityMg, `${path}.quantityMg`),
+    treatmentId: nullable(number)(data.treatmentId, `${path}.treatmentId`),
+    formularyId: nullable(string)(data.formularyId, `${path}.formularyId`),
+    stageId: number(data.stageId, `${path}.stageId`),
+    stage: nullable(string)(data.stage, `${path}.stage`),
+    intakes: arrayOf(intake)(data.intakes, `${path}.intakes`),
+  };
+};
+
+const stage: Parser<Stage> = (value, path) => {
+  const data = record(value, path);
+  return {
+    id: number(data.id, `${path}.id`),
+    name: string(data.name, `${path}.name`),
+    symptomId: number(data.symptomId, `${path}.symptomId`),
+    symptom: optionalString(data.symptom, `${path}.symptom`),
+    medication: arrayOf(medication)(data.medication, `${path}.medication`),
+  };
+};
+
+const symptom: Parser<Symptom> = (value, path) => {
+  const data = record(value, path);
+  return {
+    id: number(data.id, `${path}.id`),
+    name: string(data.name, `${path}.name`),
+    isActive: boolean(data.isActive, `${path}.isActive`),
+    stages: arrayOf(stage)(data.stages, `${path}.stages`),
+  };
+};
+
+export const parseIntake = (value: unknown): Intake => intake(value, 'intake');
+export const parseMedication = (value: unknown): Medication => medication(value, 'medication');
+export const parseMedications = (value: unknown): Medication[] =>
+  Array.isArray(value) ? arrayOf(medication)(value, 'medications') : fail('medications', 'a list', value);
+export const parseStage = (value: unknown): Stage => stage(value, 'stage');
+export const parseSymptom = (value: unknown): Symptom => symptom(value, 'symptom');
+export const parseSymptoms = (value: unknown): Symptom[] =>
+  Array.isArray(value) ? arrayOf(symptom)(value, 'symptoms') : fail('symptoms', 'a list', value);
@@ -0,0 +1,44 @@
+// src/services/storage.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from './logger';
+
+const log = createLogger('Storage');
+
+// Keys for everything the app keeps on the device
+export const STORAGE_KEYS = {
+  SYMPTOMS_CACHE: '@trackyourmeds/symptoms',
+  MUTATION_QUEUE: '@trackyourmeds/mutation-queue',
+  BASE_URL: '@trackyourmeds/base-url',
+  SERVER_ENVIRONMENTS: '@trackyourmeds/server-environments',
+  EPISODES: '@trackyourmeds/episodes',
+  CURRENT_STAGES: '@trackyourmeds/current-stages',
+  ON_TIME_WINDOW: '@trackyourmeds/on-time-window',
+  SNOOZES: '@trackyourmeds/snoozes',
+};
+
+// Read a JSON value, falling back when it is missing or unreadable
+export async function loadJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    log.error(`Failed to read ${key}`, error);
+    return fallback;
+  }
+}
+
+export async function saveJSON<T>(key: string, value: T): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    log.error(`Failed to write ${key}`, error);
+  }
+}
+
+export async function removeItem(key: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(key);
+  } catch (error) {
+    log.error(`Failed to remove ${key}`, error);
+  }
+}
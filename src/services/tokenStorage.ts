@@ -0,0 +1,40 @@
+// src/services/tokenStorage.ts
+import * as Keychain from 'react-native-keychain';
+import { createLogger } from './logger';
+
+const log = createLogger('Auth');
+
+const KEYCHAIN_SERVICE = 'trackyourmeds.auth';
+
+interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Tokens live in the iOS Keychain / Android Keystore rather than AsyncStorage
+export async function loadTokens(): Promise<AuthTokens | null> {
+  try {
+    const credentials = await Keychain.getGenericPassword({ service: KEYCHAIN_SERVICE });
+    return credentials ? (JSON.parse(credentials.password) as AuthTokens) : null;
+  } catch (error) {
+    log.error('Failed to read tokens', error);
+    return null;
+  }
+}
+
+export async function saveTokens(tokens: AuthTokens): Promise<void> {
+  await Keychain.setGenericPassword('session', JSON.stringify(tokens), {
+    service: KEYCHAIN_SERVICE,
+    accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+}
+
+export async function clearTokens(): Promise<void> {
+  try {
+    await Keychain.resetGenericPassword({ service: KEYCHAIN_SERVICE });
+  } catch (error) {
+    log.error('Failed to clear tokens', error);
+  }
+}
+
+export type { AuthTokens };
@@ -0,0 +1,60 @@
+import React, { createContext, useContext, useEffect, useSyncExternalStore } from 'react';
+import { symptomStore, type SymptomStore, type SymptomStoreState } from './symptomStore';
+import { episodeStore, findOpenEpisode, type EpisodeStore, type EpisodeStoreState } from './episodeStore';
+
+const SymptomStoreContext = createContext<SymptomStore>(symptomStore);
+const EpisodeStoreContext = createContext<EpisodeStore>(episodeStore);
+
+interface SymptomStoreProviderProps {
+  store?: SymptomStore;
+  episodes?: EpisodeStore;
+  children: React.ReactNode;
+}
+
+export function SymptomStoreProvider({ store = symptomStore, episodes = episodeStore, children }: SymptomStoreProviderProps) {
+  return (
+    <SymptomStoreContext.Provider value={store}>
+      <EpisodeStoreContext.Provider value={episodes}>{children}</EpisodeStoreContext.Provider>
+    </SymptomStoreContext.Provider>
+  );
+}
+
+// Re-renders only when the selected slice changes. Selectors should return
+// something already in the state rather than build a new object or list.
+export function useSymptomStore<T>(selector: (state: SymptomStoreState) => T): T {
+  const store = useContext(SymptomStoreContext);
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+}
+
+// Loading and the optimistic writes
+export function useSymptomActions(): SymptomStore {
+  return useContext(SymptomStoreContext);
+}
+
+export const selectSymptoms = (state: SymptomStoreState) => state.symptoms;
+export const selectIntakeLog = (state: SymptomStoreState) => state.intakes;
+export const selectRegimen = (state: SymptomStoreState) => state.regimen;
+export const selectCurrentStages = (state: SymptomStoreState) => state.currentStages;
+export const selectStatus = (state: SymptomStoreState) => state.status;
+export const selectError = (state: SymptomStoreState) => state.error;
+export const selectIsOffline = (state: SymptomStoreState) => state.isOffline;
+export const selectPendingChanges = (state: SymptomStoreState) => state.pendingChanges;
+export const selectSymptom = (id: number) => (state: SymptomStoreState) =>
+  state.symptoms.find(symptom => symptom.id === id);
+
+// Same as useSymptomStore for the locally recorded episodes; the first use reads them from storage
+export function useEpisodeStore<T>(selector: (state: EpisodeStoreState) => T): T {
+  const store = useContext(EpisodeStoreContext);
+  useEffect(() => {
+    store.load();
+  }, [store]);
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+}
+
+export function useEpisodeActions(): EpisodeStore {
+  return useContext(EpisodeStoreContext);
+}
+
+export const selectEpisodes = (state: EpisodeStoreState) => state.episodes;
+export const selectOpenEpisode = (symptomId: number) => (state: EpisodeStoreState) =>
+  findOpenEpisode(state.episodes, symptomId);
@@ -0,0 +1,206 @@
+// src/store/episodeStore.ts
+import { apiService, type Stage } from '../services/api';
+import { STORAGE_KEYS, loadJSON, removeItem, saveJSON } from '../services/storage';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Episodes');
+
+export const SEVERITY_RANGE = { MIN: 0, MAX: 10 };
+
+// What the symptom was like at one point in an episode. The stage name is copied
+// so the history still reads correctly after the stage is renamed or deleted.
+interface EpisodeUpdate {
+  time: string;
+  stageId: number | null;
+  stageName: string | null;
+  severity: number; // 0 (none) to 10 (worst imaginable)
+  notes: string;
+}
+
+// One stretch of time the symptom was present, e.g. a single migraine attack
+interface Episode {
+  id: string;
+  symptomId: number;
+  startedAt: string;
+  endedAt: string | null; // null while the episode is ongoing
+  updates: EpisodeUpdate[]; // oldest first; the last one is how the symptom is now
+}
+
+interface EpisodeInput {
+  stage: Pick<Stage, 'id' | 'name'> | null;
+  severity: number;
+  notes?: string;
+  time?: Date;
+}
+
+interface EpisodeStoreState {
+  episodes: Episode[]; // newest first
+  loaded: boolean;
+}
+
+const initialState: EpisodeStoreState = { episodes: [], loaded: false };
+
+export function isValidSeverity(severity: number): boolean {
+  return Number.isInteger(severity) && severity >= SEVERITY_RANGE.MIN && severity <= SEVERITY_RANGE.MAX;
+}
+
+export function getCurrentUpdate(episode: Episode): EpisodeUpdate {
+  return episode.updates[episode.updates.length - 1];
+}
+
+export function findOpenEpisode(episodes: Episode[], symptomId: number): Episode | undefined {
+  return episodes.find(episode => episode.symptomId === symptomId && episode.endedAt === null);
+}
+
+function buildUpdate({ stage, severity, notes = '', time = new Date() }: EpisodeInput): EpisodeUpdate {
+  if (!isValidSeverity(severity)) {
+    throw new Error(`Severity must be a whole number from ${SEVERITY_RANGE.MIN} to ${SEVERITY_RANGE.MAX}`);
+  }
+  return {
+    time: time.toISOString(),
+    stageId: stage?.id ?? null,
+    stageName: stage?.name ?? null,
+    severity,
+    notes: notes.trim(),
+  };
+}
+
+const sortNewestFirst = (episodes: Episode[]) =>
+  [...episodes].sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+
+// Symptom episodes recorded on this device. They are kept in local storage and
+// never sent to the server; signing out removes them.
+class EpisodeStore {
+  private state = initialState;
+  private listeners = new Set<() => void>();
+  private loading: Promise<void> | null = null;
+  // Bumped on sign-out so reads and writes started before it are dropped
+  private session = 0;
+  private clearing: Promise<void> = Promise.resolve();
+
+  constructor() {
+    apiService.onAuthStateChange(signedIn => {
+      if (!signedIn) {
+        this.endSession();
+      }
+    });
+  }
+
+  private async endSession(): Promise<void> {
+    this.session += 1;
+    this.loading = null;
+    this.setState(initialState);
+    this.clearing = removeItem(STORAGE_KEYS.EPISODES);
+    await this.clearing;
+  }
+
+  getState = (): EpisodeStoreState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setState(state: EpisodeStoreState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Read the saved episodes once; later calls wait for the same read. After a sign-out the
+  // removal finishes first, so the last account's episodes are never read back.
+  load(): Promise<void> {
+    if (!this.loading) {
+      const session = this.session;
+      this.loading = this.clearing
+        .then(() => loadJSON<Episode[]>(STORAGE_KEYS.EPISODES, []))
+        .then(episodes => {
+          if (session === this.session) {
+            this.setState({ episodes: sortNewestFirst(episodes), loaded: true });
+          }
+        });
+    }
+    return this.loading;
+  }
+
+  // Callers that read the episodes first pass the session they started in
+  private async save(update: (episodes: Episode[]) => Episode[], session = this.session): Promise<void> {
+    await this.load();
+    if (session !== this.session) {
+      log.warn('Signed out before the episode was saved; dropping it');
+      return;
+    }
+    const episodes = sortNewestFirst(update(this.state.episodes));
+    this.setState({ ...this.state, episodes });
+    await saveJSON(STORAGE_KEYS.EPISODES, episodes);
+  }
+
+  private async getEpisode(episodeId: string): Promise<Episode> {
+    await this.load();
+    const episode = this.state.episodes.find(e => e.id === episodeId);
+    if (!episode) {
+      throw new Error(`Episode ${episodeId} not found`);
+    }
+    return episode;
+  }
+
+  async startEpisode(symptomId: number, input: EpisodeInput): Promise<Episode> {
+    const session = this.session;
+    await this.load();
+    if (findOpenEpisode(this.state.episodes, symptomId)) {
+      throw new Error('This symptom already has an ongoing episode');
+    }
+    const update = buildUpdate(input);
+    const episode: Episode = {
+      id: `${Date.now()}-${symptomId}`,
+      symptomId,
+      startedAt: update.time,
+      endedAt: null,
+      updates: [update],
+    };
+    await this.save(episodes => [...episodes, episode], session);
+    log.info(`Started episode ${episode.id}`);
+    return episode;
+  }
+
+  // Record a change in stage or severity during an ongoing episode
+  async recordUpdate(episodeId: string, input: EpisodeInput): Promise<void> {
+    const session = this.session;
+    const episode = await this.getEpisode(episodeId);
+    const update = buildUpdate(input);
+    if (Date.parse(update.time) < Date.parse(episode.startedAt)) {
+      throw new Error('An update cannot be earlier than the start of the episode');
+    }
+    const updates = [...episode.updates, update].sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+    await this.save(episodes => episodes.map(e => (e.id === episodeId ? { ...e, updates } : e)), session);
+  }
+
+  async endEpisode(episodeId: string, time: Date = new Date()): Promise<void> {
+    const session = this.session;
+    const episode = await this.getEpisode(episodeId);
+    if (time.getTime() < Date.parse(getCurrentUpdate(episode).time)) {
+      throw new Error('An episode cannot end before its last update');
+    }
+    await this.save(
+      episodes => episodes.map(e => (e.id === episodeId ? { ...e, endedAt: time.toISOString() } : e)),
+      session
+    );
+    log.info(`Ended episode ${episodeId}`);
+  }
+
+  async deleteEpisode(episodeId: string): Promise<void> {
+    await this.save(episodes => episodes.filter(e => e.id !== episodeId));
+  }
+
+  // Drop the history of a symptom that was deleted
+  async removeSymptom(symptomId: number): Promise<void> {
+    await this.save(episodes => episodes.filter(e => e.symptomId !== symptomId));
+  }
+}
+
+// Export singleton instance
+export const episodeStore = new EpisodeStore();
+
+export { EpisodeStore };
+export type { Episode, EpisodeUpdate, EpisodeInput, EpisodeStoreState };
@@ -0,0 +1,318 @@
+// src/store/symptomStore.ts
+import { apiService, type FetchOptions, type Intake, type Medication, type Symptom } from '../services/api';
+import {
+  clearSnoozes,
+  correctIntake,
+  logDoseSkipped,
+  logDoseTaken,
+  restoreSnoozes,
+  undoIntake,
+} from '../services/doseActions';
+import { reminderScheduler } from '../services/reminders';
+import { STORAGE_KEYS, loadJSON, removeItem, saveJSON } from '../services/storage';
+import { episodeStore } from './episodeStore';
+import { createLogger } from '../services/logger';
+import { buildRegimen, type CurrentStages } from '../utils/stages';
+
+const log = createLogger('Store');
+
+type LoadStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+// One logged dose together with where it sits in the symptom tree
+interface IntakeLogEntry {
+  intake: Intake;
+  medication: Medication;
+  stageId: number;
+  symptomId: number;
+}
+
+// A change shown before the server has confirmed it
+type OptimisticChange =
+  | { type: 'updateSymptom'; symptomId: number; changes: Partial<Pick<Symptom, 'name' | 'isActive'>> }
+  | { type: 'removeSymptom'; symptomId: number }
+  | { type: 'addIntake'; intake: Intake }
+  | { type: 'updateIntake'; intakeId: number; changes: Partial<Intake> }
+  | { type: 'removeIntake'; intakeId: number };
+
+interface PendingChange {
+  id: number;
+  change: OptimisticChange;
+  committedAt: number | null; // write version once the server accepted it
+}
+
+interface SymptomStoreState {
+  symptoms: Symptom[]; // the confirmed tree with pending changes applied
+  intakes: IntakeLogEntry[]; // newest first
+  currentStages: CurrentStages; // chosen on this device
+  regimen: Symptom[]; // active symptoms with only their current stage
+  status: LoadStatus;
+  error: unknown;
+  isOffline: boolean;
+  pendingChanges: number; // writes queued while offline
+  confirmed: Symptom[]; // as last loaded from the server
+  pending: PendingChange[];
+}
+
+type SymptomStoreAction =
+  | { type: 'loadStarted' }
+  | { type: 'loaded'; symptoms: Symptom[]; version: number; isOffline: boolean; pendingChanges: number }
+  | { type: 'loadFailed'; error: unknown }
+  | { type: 'changeStarted'; id: number; change: OptimisticChange }
+  | { type: 'changeCommitted'; id: number; version: number }
+  | { type: 'changeFailed'; id: number }
+  | { type: 'stagesRestored'; currentStages: CurrentStages }
+  | { type: 'stageSelected'; symptomId: number; stageId: number }
+  | { type: 'reset' };
+
+const initialState: SymptomStoreState = {
+  symptoms: [],
+  intakes: [],
+  currentStages: {},
+  regimen: [],
+  status: 'idle',
+  error: null,
+  isOffline: false,
+  pendingChanges: 0,
+  confirmed: [],
+  pending: [],
+};
+
+function updateMedications(symptoms: Symptom[], update: (medication: Medication) => Medication): Symptom[] {
+  return symptoms.map(symptom => ({
+    ...symptom,
+    stages: symptom.stages.map(stage => ({ ...stage, medication: stage.medication.map(update) })),
+  }));
+}
+
+function applyChange(symptoms: Symptom[], change: OptimisticChange): Symptom[] {
+  switch (change.type) {
+    case 'updateSymptom':
+      return symptoms.map(s => (s.id === change.symptomId ? { ...s, ...change.changes } : s));
+    case 'removeSymptom':
+      return symptoms.filter(s => s.id !== change.symptomId);
+    case 'addIntake':
+      return updateMedications(symptoms, medication =>
+        medication.id === change.intake.medicationId
+          ? { ...medication, intakes: [...medication.intakes, change.intake] }
+          : medication
+      );
+    case 'updateIntake':
+      return updateMedications(symptoms, medication => ({
+        ...medication,
+        intakes: medication.intakes.map(i => (i.id === change.intakeId ? { ...i, ...change.changes } : i)),
+      }));
+    case 'removeIntake':
+      return updateMedications(symptoms, medication => ({
+        ...medication,
+        intakes: medication.intakes.filter(i => i.id !== change.intakeId),
+      }));
+  }
+}
+
+export function buildIntakeLog(symptoms: Symptom[]): IntakeLogEntry[] {
+  const entries: IntakeLogEntry[] = [];
+  for (const symptom of symptoms) {
+    for (const stage of symptom.stages) {
+      for (const medication of stage.medication) {
+        for (const intake of medication.intakes) {
+          entries.push({ intake, medication, stageId: stage.id, symptomId: symptom.id });
+        }
+      }
+    }
+  }
+  return entries.sort((a, b) => Date.parse(b.intake.scheduledTime) - Date.parse(a.intake.scheduledTime));
+}
+
+// Rebuild the visible tree whenever the confirmed tree or the pending changes move
+function withPending(state: SymptomStoreState, confirmed: Symptom[], pending: PendingChange[]): SymptomStoreState {
+  const symptoms = pending.reduce((tree, { change }) => applyChange(tree, change), confirmed);
+  return {
+    ...state,
+    confirmed,
+    pending,
+    symptoms,
+    intakes: buildIntakeLog(symptoms),
+    regimen: buildRegimen(symptoms, state.currentStages),
+  };
+}
+
+function withStages(state: SymptomStoreState, currentStages: CurrentStages): SymptomStoreState {
+  return { ...state, currentStages, regimen: buildRegimen(state.symptoms, currentStages) };
+}
+
+export function symptomReducer(state: SymptomStoreState, action: SymptomStoreAction): SymptomStoreState {
+  switch (action.type) {
+    case 'loadStarted':
+      // Data already on screen stays there while it refreshes
+      return state.status === 'ready' ? state : { ...state, status: 'loading', error: null };
+    case 'loaded': {
+      // Changes the server accepted before this load started are part of the new tree now
+      const pending = state.pending.filter(p => p.committedAt === null || p.committedAt > action.version);
+      return withPending(
+        { ...state, status: 'ready', error: null, isOffline: action.isOffline, pendingChanges: action.pendingChanges },
+        action.symptoms,
+        pending
+      );
+    }
+    case 'loadFailed':
+      return { ...state, status: state.status === 'ready' ? 'ready' : 'error', error: action.error };
+    case 'changeStarted':
+      return withPending(state, state.confirmed, [
+        ...state.pending,
+        { id: action.id, change: action.change, committedAt: null },
+      ]);
+    case 'changeCommitted':
+      return {
+        ...state,
+        pending: state.pending.map(p => (p.id === action.id ? { ...p, committedAt: action.version } : p)),
+      };
+    case 'changeFailed':
+      return withPending(state, state.confirmed, state.pending.filter(p => p.id !== action.id));
+    case 'stagesRestored':
+      // A stage picked before the saved ones were read wins
+      return withStages(state, { ...action.currentStages, ...state.currentStages });
+    case 'stageSelected':
+      return withStages(state, { ...state.currentStages, [action.symptomId]: action.stageId });
+    case 'reset':
+      return initialState;
+  }
+}
+
+// Holds the symptom tree and intake log for every screen. Writes are shown
+// straight away and rolled back here if the server rejects them.
+class SymptomStore {
+  private state = initialState;
+  private listeners = new Set<() => void>();
+  private nextChangeId = 1;
+  private version = 0;
+  private stagesRestored: Promise<void> | null = null;
+
+  constructor() {
+    // Background refreshes of the cached list land here too
+    apiService.onSymptomsUpdated(symptoms => this.receive(symptoms, this.version));
+    apiService.onAuthStateChange(signedIn => {
+      if (!signedIn) {
+        this.stagesRestored = null;
+        this.dispatch({ type: 'reset' });
+        removeItem(STORAGE_KEYS.CURRENT_STAGES);
+        clearSnoozes();
+      }
+    });
+  }
+
+  getState = (): SymptomStoreState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private dispatch(action: SymptomStoreAction) {
+    const previous = this.state;
+    this.state = symptomReducer(previous, action);
+    if (this.state === previous) {
+      return;
+    }
+    if (this.state.regimen !== previous.regimen) {
+      reminderScheduler.reschedule(this.state.regimen);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async receive(symptoms: Symptom[], version: number) {
+    const pendingChanges = await apiService.getPendingMutationCount();
+    this.dispatch({ type: 'loaded', symptoms, version, isOffline: apiService.isOffline(), pendingChanges });
+  }
+
+  private restoreStages(): Promise<void> {
+    if (!this.stagesRestored) {
+      this.stagesRestored = loadJSON<CurrentStages>(STORAGE_KEYS.CURRENT_STAGES, {}).then(currentStages =>
+        this.dispatch({ type: 'stagesRestored', currentStages })
+      );
+    }
+    return this.stagesRestored;
+  }
+
+  // Rejects so the caller can decide how to report the failure; the error is also kept in state
+  async load(options: FetchOptions = {}): Promise<void> {
+    const version = this.version;
+    this.dispatch({ type: 'loadStarted' });
+    try {
+      await Promise.all([this.restoreStages(), restoreSnoozes()]);
+      await this.receive(await apiService.getSymptoms(options), version);
+    } catch (error) {
+      this.dispatch({ type: 'loadFailed', error });
+      throw error;
+    }
+  }
+
+  // Show the change now, send it, then reload so the tree matches the server.
+  // A rejected write removes the change again and rethrows.
+  private async runOptimistic<T>(change: OptimisticChange, commit: () => Promise<T>): Promise<T> {
+    const id = this.nextChangeId++;
+    this.dispatch({ type: 'changeStarted', id, change });
+    let result: T;
+    try {
+      result = await commit();
+    } catch (error) {
+      log.warn(`Rolled back ${change.type}`, error);
+      this.dispatch({ type: 'changeFailed', id });
+      throw error;
+    }
+    this.dispatch({ type: 'changeCommitted', id, version: ++this.version });
+    this.load().catch(error => log.warn(`Reload after ${change.type} failed`, error));
+    return result;
+  }
+
+  // Switch the symptom to another of its stages; only that stage's medications are due from now on
+  async setCurrentStage(symptomId: number, stageId: number): Promise<void> {
+    await this.restoreStages();
+    this.dispatch({ type: 'stageSelected', symptomId, stageId });
+    await saveJSON(STORAGE_KEYS.CURRENT_STAGES, this.state.currentStages);
+  }
+
+  updateSymptom(symptom: Symptom, changes: Partial<Pick<Symptom, 'name' | 'isActive'>>): Promise<void> {
+    return this.runOptimistic({ type: 'updateSymptom', symptomId: symptom.id, changes }, () =>
+      apiService.updateSymptom(symptom.id, { ...symptom, ...changes })
+    );
+  }
+
+  // The recorded episodes go with the symptom once the server has deleted it
+  async deleteSymptom(symptomId: number): Promise<void> {
+    await this.runOptimistic({ type: 'removeSymptom', symptomId }, () => apiService.deleteSymptom(symptomId));
+    await episodeStore.removeSymptom(symptomId);
+  }
+
+  // Record the dose scheduled at `scheduledTime` as taken now, or as skipped
+  logDose(medication: Medication, scheduledTime: Date, taken: boolean): Promise<Intake> {
+    const intake: Intake = {
+      id: -this.nextChangeId,
+      medicationId: medication.id,
+      scheduledTime: scheduledTime.toISOString(),
+      actualTime: taken ? new Date().toISOString() : null,
+      medication: medication.name,
+    };
+    return this.runOptimistic({ type: 'addIntake', intake }, () =>
+      taken ? logDoseTaken(medication, scheduledTime) : logDoseSkipped(medication, scheduledTime)
+    );
+  }
+
+  correctIntake(intake: Intake, actualTime: Date | null): Promise<void> {
+    const changes = { actualTime: actualTime ? actualTime.toISOString() : null };
+    return this.runOptimistic({ type: 'updateIntake', intakeId: intake.id, changes }, () =>
+      correctIntake(intake, actualTime)
+    );
+  }
+
+  undoIntake(intake: Intake): Promise<void> {
+    return this.runOptimistic({ type: 'removeIntake', intakeId: intake.id }, () => undoIntake(intake));
+  }
+}
+
+// Export singleton instance
+export const symptomStore = new SymptomStore();
+
+export { SymptomStore };
+export type { SymptomStoreState, SymptomStoreAction, OptimisticChange, IntakeLogEntry, LoadStatus };
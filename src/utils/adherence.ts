@@ -0,0 +1,186 @@
+// src/utils/adherence.ts
+import type { Symptom } from '../services/api';
+import { addDays, toDateKey } from './calendar';
+import { getDoseTimeline } from './doseSchedule';
+import { isScheduledStage, type CurrentStages } from './stages';
+
+type DoseOutcome = 'onTime' | 'late' | 'early' | 'missed';
+
+// A dose that should have been taken by now
+interface AdherenceDose {
+  scheduledTime: Date;
+  delayMinutes: number | null; // actual minus scheduled time; null when skipped or never logged
+  medicationId: number;
+  medicationName: string;
+  symptomId: number;
+  symptomName: string;
+}
+
+interface AdherenceFilter {
+  from: Date | null; // null for all history
+  to: Date;
+  symptomId: number | null;
+  medicationId: number | null;
+}
+
+interface AdherenceSummary {
+  total: number;
+  taken: number;
+  onTime: number;
+  late: number;
+  early: number;
+  missed: number;
+  takenPercent: number | null; // null when there is nothing to measure yet
+  onTimePercent: number | null;
+}
+
+interface DayAdherence {
+  date: Date;
+  taken: number;
+  total: number;
+}
+
+interface AdherenceStreaks {
+  current: number; // days in a row, up to the latest day with doses, with every dose taken
+  longest: number;
+}
+
+interface AdherenceGroup {
+  id: number;
+  name: string;
+  summary: AdherenceSummary;
+}
+
+// How far from the scheduled time a dose still counts as on time
+export const ON_TIME_WINDOW_OPTIONS = [15, 30, 60, 120];
+export const DEFAULT_ON_TIME_WINDOW = 60;
+
+// Logged doses of every medication, plus the unlogged ones that have already passed.
+// Only stages that are currently scheduled have unlogged doses projected.
+export function collectAdherenceDoses(
+  symptoms: Symptom[],
+  currentStages: CurrentStages,
+  now: Date = new Date()
+): AdherenceDose[] {
+  const doses: AdherenceDose[] = [];
+  for (const symptom of symptoms) {
+    for (const stage of symptom.stages) {
+      for (const medication of stage.medication) {
+        const timeline = getDoseTimeline(medication, now, isScheduledStage(symptom, stage, currentStages));
+        for (const dose of timeline) {
+          if (dose.status === 'scheduled' || dose.time.getTime() > now.getTime()) {
+            continue;
+          }
+          const actualTime = dose.intake?.actualTime;
+          doses.push({
+            scheduledTime: dose.time,
+            delayMinutes: actualTime ? Math.round((Date.parse(actualTime) - dose.time.getTime()) / 60000) : null,
+            medicationId: medication.id,
+            medicationName: medication.name,
+            symptomId: symptom.id,
+            symptomName: symptom.name,
+          });
+        }
+      }
+    }
+  }
+  return doses.sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+}
+
+export function filterDoses(doses: AdherenceDose[], filter: AdherenceFilter): AdherenceDose[] {
+  return doses.filter(
+    dose =>
+      (filter.from === null || dose.scheduledTime.getTime() >= filter.from.getTime()) &&
+      dose.scheduledTime.getTime() <= filter.to.getTime() &&
+      (filter.symptomId === null || dose.symptomId === filter.symptomId) &&
+      (filter.medicationId === null || dose.medicationId === filter.medicationId)
+  );
+}
+
+export function getDoseOutcome(dose: AdherenceDose, windowMinutes: number): DoseOutcome {
+  if (dose.delayMinutes === null) {
+    return 'missed';
+  }
+  if (dose.delayMinutes > windowMinutes) {
+    return 'late';
+  }
+  return dose.delayMinutes < -windowMinutes ? 'early' : 'onTime';
+}
+
+const percent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : null);
+
+export function summarizeAdherence(doses: AdherenceDose[], windowMinutes: number): AdherenceSummary {
+  const counts: Record<DoseOutcome, number> = { onTime: 0, late: 0, early: 0, missed: 0 };
+  for (const dose of doses) {
+    counts[getDoseOutcome(dose, windowMinutes)]++;
+  }
+  const taken = doses.length - counts.missed;
+  return {
+    total: doses.length,
+    taken,
+    ...counts,
+    takenPercent: percent(taken, doses.length),
+    onTimePercent: percent(counts.onTime, doses.length),
+  };
+}
+
+// One entry per calendar day from `from` to `to`, including days without doses
+export function getDailyAdherence(doses: AdherenceDose[], from: Date, to: Date): DayAdherence[] {
+  const byDay = new Map<string, DayAdherence>();
+  for (let day = new Date(from.getFullYear(), from.getMonth(), from.getDate()); day <= to; day = addDays(day, 1)) {
+    byDay.set(toDateKey(day), { date: day, taken: 0, total: 0 });
+  }
+  for (const dose of doses) {
+    const day = byDay.get(toDateKey(dose.scheduledTime));
+    if (day) {
+      day.total++;
+      day.taken += dose.delayMinutes === null ? 0 : 1;
+    }
+  }
+  return [...byDay.values()];
+}
+
+// Days without any doses neither break nor extend a streak
+export function getStreaks(doses: AdherenceDose[]): AdherenceStreaks {
+  const days = new Map<string, boolean>();
+  for (const dose of doses) {
+    const key = toDateKey(dose.scheduledTime);
+    days.set(key, (days.get(key) ?? true) && dose.delayMinutes !== null);
+  }
+
+  let current = 0;
+  let longest = 0;
+  for (const complete of [...days.keys()].sort().map(key => days.get(key))) {
+    current = complete ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+// Adherence per medication or per symptom, worst first
+export function groupAdherence(
+  doses: AdherenceDose[],
+  by: 'medication' | 'symptom',
+  windowMinutes: number
+): AdherenceGroup[] {
+  const groups = new Map<number, { name: string; doses: AdherenceDose[] }>();
+  for (const dose of doses) {
+    const id = by === 'medication' ? dose.medicationId : dose.symptomId;
+    const group = groups.get(id) ?? { name: by === 'medication' ? dose.medicationName : dose.symptomName, doses: [] };
+    group.doses.push(dose);
+    groups.set(id, group);
+  }
+  return [...groups.entries()]
+    .map(([id, group]) => ({ id, name: group.name, summary: summarizeAdherence(group.doses, windowMinutes) }))
+    .sort((a, b) => (a.summary.takenPercent ?? 100) - (b.summary.takenPercent ?? 100) || a.name.localeCompare(b.name));
+}
+
+export type {
+  DoseOutcome,
+  AdherenceDose,
+  AdherenceFilter,
+  AdherenceSummary,
+  DayAdherence,
+  AdherenceStreaks,
+  AdherenceGroup,
+};
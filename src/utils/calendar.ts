@@ -0,0 +1,105 @@
+// src/utils/calendar.ts
+import type { Medication, Symptom } from '../services/api';
+import { getDoseTimeline, type TimelineDose } from './doseSchedule';
+import { isScheduledStage, type CurrentStages } from './stages';
+
+type DayStatus = 'taken' | 'partial' | 'missed' | 'upcoming' | 'none';
+
+interface CalendarDose extends TimelineDose {
+  medication: Medication;
+  symptomName: string;
+  stageName: string;
+}
+
+// Local calendar date key, e.g. 2025-03-07
+export function toDateKey(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return toDateKey(a) === toDateKey(b);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function startOfWeek(date: Date): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(result, -result.getDay());
+}
+
+// The seven days of the week (Sunday first) containing the given date
+export function getWeekDays(date: Date): Date[] {
+  const start = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+// Whole weeks covering the given month, padded with days from the neighbouring months
+export function getMonthGrid(year: number, month: number): Date[][] {
+  const firstOfMonth = new Date(year, month, 1);
+  const lastOfMonth = new Date(year, month + 1, 0);
+  const weeks: Date[][] = [];
+
+  let weekStart = startOfWeek(firstOfMonth);
+  while (weekStart.getTime() <= lastOfMonth.getTime()) {
+    weeks.push(getWeekDays(weekStart));
+    weekStart = addDays(weekStart, 7);
+  }
+
+  return weeks;
+}
+
+// Every dose across all symptoms, bucketed by calendar day. Remaining doses are only
+// projected for the current stage of active symptoms; the rest just show their history.
+export function buildDoseCalendar(
+  symptoms: Symptom[],
+  now: Date = new Date(),
+  currentStages: CurrentStages = {}
+): Map<string, CalendarDose[]> {
+  const days = new Map<string, CalendarDose[]>();
+
+  for (const symptom of symptoms) {
+    for (const stage of symptom.stages ?? []) {
+      for (const medication of stage.medication ?? []) {
+        for (const dose of getDoseTimeline(medication, now, isScheduledStage(symptom, stage, currentStages))) {
+          const key = toDateKey(dose.time);
+          const entry: CalendarDose = {
+            ...dose,
+            medication,
+            symptomName: symptom.name,
+            stageName: stage.name,
+          };
+          days.set(key, [...(days.get(key) ?? []), entry]);
+        }
+      }
+    }
+  }
+
+  days.forEach(doses => doses.sort((a, b) => a.time.getTime() - b.time.getTime()));
+  return days;
+}
+
+// Adherence for a single day, ignoring doses that are still to come
+export function getDayStatus(doses: CalendarDose[]): DayStatus {
+  if (doses.length === 0) {
+    return 'none';
+  }
+
+  const past = doses.filter(dose => dose.status !== 'scheduled');
+  if (past.length === 0) {
+    return 'upcoming';
+  }
+
+  const taken = past.filter(dose => dose.status === 'taken').length;
+  if (taken === past.length) {
+    return 'taken';
+  }
+  return taken === 0 ? 'missed' : 'partial';
+}
+
+export type { CalendarDose, DayStatus };
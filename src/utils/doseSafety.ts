@@ -0,0 +1,83 @@
+// src/utils/doseSafety.ts
+import { DOSE_LIMITS, type DoseLimit } from '../data/doseLimits';
+import { COMBINATION_PRODUCTS } from '../data/ingredients';
+import { findBestNameMatch, resolveMedicationName } from './formulary';
+
+type DoseCheckStatus = 'unknown' | 'ok' | 'aboveUsual' | 'aboveAbsolute';
+
+interface DoseCheck {
+  dailyTotalMg: number | null; // null until the dosage and interval are both valid
+  limit: DoseLimit | null; // null for medications missing from the reference table
+  status: DoseCheckStatus;
+}
+
+interface DoseInput {
+  name: string;
+  quantityMg: number;
+  intervalHours: number;
+  formularyId?: string | null;
+}
+
+// Whole numbers only; returns null for empty or partly numeric text such as "8h"
+export function parseWholeNumber(text: string): number | null {
+  const trimmed = text.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+// Amount taken over 24 hours when every dose is taken on time
+export function getDailyTotalMg(quantityMg: number, intervalHours: number): number | null {
+  if (!(quantityMg > 0) || !(intervalHours > 0)) {
+    return null;
+  }
+  return (quantityMg * 24) / intervalHours;
+}
+
+// Matches the generic name or a brand name. A combination product such as "Tylenol with Codeine"
+// has no single limit, so it isn't graded against the one ingredient its name starts with.
+export function findDoseLimit(name: string): DoseLimit | null {
+  if (!name.trim()) {
+    return null;
+  }
+  const candidates = [
+    ...COMBINATION_PRODUCTS.map(product => ({ limit: null, names: [product.name, ...product.aliases] })),
+    ...DOSE_LIMITS.map(limit => ({ limit, names: [limit.name, ...limit.aliases] })),
+  ];
+  return findBestNameMatch(name, candidates, candidate => candidate.names)?.limit ?? null;
+}
+
+export function checkDailyDose(medication: DoseInput): DoseCheck {
+  const dailyTotalMg = getDailyTotalMg(medication.quantityMg, medication.intervalHours);
+  const limit = findDoseLimit(resolveMedicationName(medication.name, medication.formularyId));
+  if (dailyTotalMg === null || !limit) {
+    return { dailyTotalMg, limit, status: 'unknown' };
+  }
+  if (dailyTotalMg > limit.absoluteMaxMg) {
+    return { dailyTotalMg, limit, status: 'aboveAbsolute' };
+  }
+  if (dailyTotalMg > limit.usualMaxMg) {
+    return { dailyTotalMg, limit, status: 'aboveUsual' };
+  }
+  return { dailyTotalMg, limit, status: 'ok' };
+}
+
+export function formatMg(mg: number): string {
+  return `${Math.round(mg)}mg`;
+}
+
+// One-line explanation for checks that need the user's attention
+export function describeDoseCheck(check: DoseCheck): string | null {
+  if (check.dailyTotalMg === null || !check.limit) {
+    return null;
+  }
+  const total = formatMg(check.dailyTotalMg);
+  switch (check.status) {
+    case 'aboveAbsolute':
+      return `${total} a day is more than the maximum of ${formatMg(check.limit.absoluteMaxMg)} for ${check.limit.name}`;
+    case 'aboveUsual':
+      return `${total} a day is above the usual maximum of ${formatMg(check.limit.usualMaxMg)} for ${check.limit.name}`;
+    default:
+      return null;
+  }
+}
+
+export type { DoseCheck, DoseCheckStatus, DoseInput };
@@ -0,0 +1,155 @@
+// src/utils/doseSchedule.ts
+import type { Intake, Medication } from '../services/api';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type DoseStatus = 'not-started' | 'due' | 'upcoming' | 'completed';
+
+type TimelineDoseStatus = 'taken' | 'skipped' | 'missed' | 'scheduled';
+
+interface TimelineDose {
+  time: Date;
+  status: TimelineDoseStatus;
+  intake: Intake | null;
+}
+
+interface DoseSchedule {
+  medication: Medication;
+  startTime: Date | null;
+  endTime: Date | null;
+  nextDose: Date | null;
+  lastIntake: Intake | null;
+  dosesLogged: number;
+  totalDoses: number;
+  status: DoseStatus;
+}
+
+// Total number of doses in a full course of the medication
+export function getTotalDoses(medication: Medication): number {
+  if (medication.intervalHours <= 0 || medication.totalDays <= 0) {
+    return 0;
+  }
+  return Math.ceil((medication.totalDays * 24) / medication.intervalHours);
+}
+
+// Intakes sorted by scheduled time, oldest first
+export function getSortedIntakes(medication: Medication): Intake[] {
+  return [...(medication.intakes ?? [])].sort(
+    (a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime()
+  );
+}
+
+// Works out where a medication is in its course and when the next dose is due.
+// The course starts at the first logged intake; until then the first dose is due now.
+export function getDoseSchedule(medication: Medication, now: Date = new Date()): DoseSchedule {
+  const intakes = getSortedIntakes(medication);
+  const totalDoses = getTotalDoses(medication);
+  const lastIntake = intakes.length > 0 ? intakes[intakes.length - 1] : null;
+
+  if (intakes.length === 0) {
+    return {
+      medication,
+      startTime: null,
+      endTime: null,
+      nextDose: totalDoses > 0 ? now : null,
+      lastIntake: null,
+      dosesLogged: 0,
+      totalDoses,
+      status: totalDoses > 0 ? 'not-started' : 'completed',
+    };
+  }
+
+  const startTime = new Date(intakes[0].scheduledTime);
+  const endTime = new Date(startTime.getTime() + medication.totalDays * 24 * HOUR_MS);
+  const nextDose = new Date(
+    new Date(lastIntake!.scheduledTime).getTime() + medication.intervalHours * HOUR_MS
+  );
+
+  if (intakes.length >= totalDoses || nextDose.getTime() >= endTime.getTime()) {
+    return {
+      medication,
+      startTime,
+      endTime,
+      nextDose: null,
+      lastIntake,
+      dosesLogged: intakes.length,
+      totalDoses,
+      status: 'completed',
+    };
+  }
+
+  return {
+    medication,
+    startTime,
+    endTime,
+    nextDose,
+    lastIntake,
+    dosesLogged: intakes.length,
+    totalDoses,
+    status: nextDose.getTime() <= now.getTime() ? 'due' : 'upcoming',
+  };
+}
+
+// Every dose of the course: logged intakes first, then the remaining slots projected
+// from the next dose. A projected slot counts as missed once the following slot has come.
+export function getDoseTimeline(
+  medication: Medication,
+  now: Date = new Date(),
+  projectRemaining: boolean = true
+): TimelineDose[] {
+  const schedule = getDoseSchedule(medication, now);
+  const timeline: TimelineDose[] = getSortedIntakes(medication).map(intake => ({
+    time: new Date(intake.scheduledTime),
+    status: intake.actualTime ? 'taken' : 'skipped',
+    intake,
+  }));
+
+  if (!projectRemaining || !schedule.nextDose) {
+    return timeline;
+  }
+
+  const intervalMs = medication.intervalHours * HOUR_MS;
+  const endTime = schedule.endTime ?? new Date(now.getTime() + medication.totalDays * 24 * HOUR_MS);
+  let time = schedule.nextDose.getTime();
+
+  while (timeline.length < schedule.totalDoses && time < endTime.getTime()) {
+    timeline.push({
+      time: new Date(time),
+      status: time + intervalMs <= now.getTime() ? 'missed' : 'scheduled',
+      intake: null,
+    });
+    time += intervalMs;
+  }
+
+  return timeline;
+}
+
+// Human readable description of when the next dose is due, relative to now
+export function formatNextDose(schedule: DoseSchedule, now: Date = new Date()): string {
+  if (schedule.status === 'completed' || !schedule.nextDose) {
+    return 'Course completed';
+  }
+  if (schedule.status === 'not-started') {
+    return 'First dose due now';
+  }
+
+  const diffMinutes = Math.round((schedule.nextDose.getTime() - now.getTime()) / 60000);
+  const time = schedule.nextDose.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  if (diffMinutes <= 0) {
+    const overdue = Math.abs(diffMinutes);
+    return overdue < 1 ? `Due now (${time})` : `Overdue by ${formatDuration(overdue)} (${time})`;
+  }
+  return `In ${formatDuration(diffMinutes)} (${time})`;
+}
+
+export function formatDuration(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+export type { DoseSchedule, DoseStatus, TimelineDose, TimelineDoseStatus };
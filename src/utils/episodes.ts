@@ -0,0 +1,40 @@
+// src/utils/episodes.ts
+import type { Episode } from '../store/episodeStore';
+import { formatDuration } from './doseSchedule';
+
+type SeverityLevel = 'none' | 'mild' | 'moderate' | 'severe';
+
+// How long ago an episode change happened, for recording it after the fact
+export const TIME_OFFSETS_MINUTES = [0, 15, 30, 60, 120];
+
+// The usual bands of a 0–10 numeric rating scale
+export function getSeverityLevel(severity: number): SeverityLevel {
+  if (severity === 0) {
+    return 'none';
+  }
+  if (severity <= 3) {
+    return 'mild';
+  }
+  return severity <= 6 ? 'moderate' : 'severe';
+}
+
+export function describeSeverity(severity: number): string {
+  const level = getSeverityLevel(severity);
+  return `${severity}/10 ${level.charAt(0).toUpperCase()}${level.slice(1)}`;
+}
+
+export function getEpisodeMinutes(episode: Episode, now: Date = new Date()): number {
+  const end = episode.endedAt ? Date.parse(episode.endedAt) : now.getTime();
+  return Math.max(0, Math.round((end - Date.parse(episode.startedAt)) / 60000));
+}
+
+export function formatEpisodeDuration(episode: Episode, now: Date = new Date()): string {
+  const duration = formatDuration(getEpisodeMinutes(episode, now));
+  return episode.endedAt ? duration : `Ongoing for ${duration}`;
+}
+
+export function formatOffset(minutes: number): string {
+  return minutes === 0 ? 'Now' : `${formatDuration(minutes)} ago`;
+}
+
+export type { SeverityLevel };
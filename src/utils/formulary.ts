@@ -0,0 +1,92 @@
+// src/utils/formulary.ts
+import { FORMULARY, type FormularyEntry } from '../data/formulary';
+
+interface FormularyMatch {
+  entry: FormularyEntry;
+  matchedName: string; // the name or alias the query matched, e.g. "Advil" for Ibuprofen
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Matches the name itself or the name followed by a form, e.g. "Ibuprofen tablets". Exact beats
+// any prefix and a longer name beats a shorter one, so "Tylenol with Codeine" isn't taken for Tylenol.
+function scoreNameMatch(entered: string, candidate: string): number | null {
+  const query = entered.trim().toLowerCase();
+  const target = candidate.toLowerCase();
+  if (query === target) {
+    return Infinity;
+  }
+  return query.startsWith(`${target} `) ? target.length : null;
+}
+
+// The item with the most specific name or alias matching what was typed; the first one wins a tie
+export function findBestNameMatch<T>(entered: string, items: T[], namesOf: (item: T) => string[]): T | null {
+  let best: { item: T; score: number } | null = null;
+  for (const item of items) {
+    for (const candidate of namesOf(item)) {
+      const score = scoreNameMatch(entered, candidate);
+      if (score !== null && (!best || score > best.score)) {
+        best = { item, score };
+      }
+    }
+  }
+  return best?.item ?? null;
+}
+
+export function findFormularyEntry(id: string | null | undefined): FormularyEntry | null {
+  return id ? FORMULARY.find(entry => entry.id === id) ?? null : null;
+}
+
+// The formulary entry a typed name refers to, for names entered without picking a suggestion
+export function matchFormulary(name: string): FormularyEntry | null {
+  if (!name.trim()) {
+    return null;
+  }
+  return findBestNameMatch(name, FORMULARY, entry => [entry.name, ...entry.aliases]);
+}
+
+// Canonical name when the medication is linked to the formulary, otherwise what was typed
+export function resolveMedicationName(name: string, formularyId?: string | null): string {
+  return findFormularyEntry(formularyId)?.name ?? name;
+}
+
+// Lower is better: name prefix, alias prefix, start of a later word, anywhere
+function rank(candidate: string, query: string, isAlias: boolean): number | null {
+  const text = candidate.toLowerCase();
+  if (text.startsWith(query)) {
+    return isAlias ? 1 : 0;
+  }
+  if (text.split(/[\s-]+/).some(word => word.startsWith(query))) {
+    return 2;
+  }
+  return text.includes(query) ? 3 : null;
+}
+
+export function searchFormulary(query: string, limit: number = MAX_SUGGESTIONS): FormularyMatch[] {
+  const trimmed = query.trim().toLowerCase();
+  if (!trimmed) {
+    return [];
+  }
+
+  const ranked: { match: FormularyMatch; score: number }[] = [];
+  for (const entry of FORMULARY) {
+    // Keep only the best-ranked name per entry
+    let best: { match: FormularyMatch; score: number } | null = null;
+    for (const [index, candidate] of [entry.name, ...entry.aliases].entries()) {
+      const score = rank(candidate, trimmed, index > 0);
+      if (score !== null && (!best || score < best.score)) {
+        best = { match: { entry, matchedName: candidate }, score };
+      }
+    }
+    if (best) {
+      ranked.push(best);
+    }
+  }
+
+  return ranked
+    .sort((a, b) => a.score - b.score || a.match.entry.name.localeCompare(b.match.entry.name))
+    .slice(0, limit)
+    .map(({ match }) => match);
+}
+
+export type { FormularyMatch };
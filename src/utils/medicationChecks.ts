@@ -0,0 +1,197 @@
+// src/utils/medicationChecks.ts
+import type { Symptom } from '../services/api';
+import { COMBINATION_PRODUCTS, INGREDIENT_CLASSES } from '../data/ingredients';
+import { INTERACTIONS } from '../data/interactions';
+import { findDoseLimit, formatMg, getDailyTotalMg } from './doseSafety';
+import { findBestNameMatch, resolveMedicationName } from './formulary';
+
+// A medication as the checker sees it. Stages of one symptom replace each other,
+// so only medications of different symptoms, or of the same stage, are taken together.
+interface MedicationEntry {
+  name: string;
+  quantityMg: number;
+  intervalHours: number;
+  symptomKey: string;
+  stageKey: string;
+  symptomName: string;
+  stageName: string;
+  formularyId?: string | null;
+  isNew?: boolean; // being added in a form rather than already saved
+}
+
+interface IngredientDose {
+  name: string;
+  mg: number;
+}
+
+type WarningSeverity = 'caution' | 'danger';
+
+interface MedicationWarning {
+  kind: 'duplicate' | 'dailyTotal' | 'interaction';
+  severity: WarningSeverity;
+  title: string;
+  message: string;
+  medications: MedicationEntry[];
+}
+
+interface IngredientUse extends IngredientDose {
+  entry: MedicationEntry;
+}
+
+// Active ingredients of a medication, splitting a combination product's dosage by strength.
+// Names missing from the dataset count as their own ingredient so exact repeats are still caught.
+export function getIngredients(enteredName: string, quantityMg: number, formularyId?: string | null): IngredientDose[] {
+  const name = resolveMedicationName(enteredName, formularyId);
+  if (!name.trim()) {
+    return [];
+  }
+  const product = findBestNameMatch(name, COMBINATION_PRODUCTS, p => [p.name, ...p.aliases]);
+  if (product) {
+    const totalStrength = product.ingredients.reduce((sum, ingredient) => sum + ingredient.strengthMg, 0);
+    return product.ingredients.map(ingredient => ({
+      name: ingredient.name,
+      mg: (quantityMg * ingredient.strengthMg) / totalStrength,
+    }));
+  }
+  return [{ name: findDoseLimit(name)?.name ?? name.trim(), mg: quantityMg }];
+}
+
+export function takenTogether(a: MedicationEntry, b: MedicationEntry): boolean {
+  return a !== b && (a.symptomKey !== b.symptomKey || a.stageKey === b.stageKey);
+}
+
+// Every medication of the active symptoms
+export function collectActiveMedications(symptoms: Symptom[]): MedicationEntry[] {
+  return symptoms
+    .filter(symptom => symptom.isActive)
+    .flatMap(symptom =>
+      symptom.stages.flatMap(stage =>
+        stage.medication.map(medication => ({
+          name: medication.name,
+          quantityMg: medication.quantityMg,
+          intervalHours: medication.intervalHours,
+          symptomKey: `${symptom.id}`,
+          stageKey: `${stage.id}`,
+          symptomName: symptom.name,
+          stageName: stage.name,
+          formularyId: medication.formularyId,
+        }))
+      )
+    );
+}
+
+export function describeEntry(entry: MedicationEntry): string {
+  return `${entry.name} (${entry.symptomName} · ${entry.stageName})`;
+}
+
+const unique = <T>(items: T[]): T[] => [...new Set(items)];
+
+// Highest daily amount the uses can add up to: the busiest stage of each symptom, summed over symptoms
+function combinedDailyMg(uses: IngredientUse[]): number {
+  const bySymptom = new Map<string, Map<string, number>>();
+  for (const use of uses) {
+    const daily = getDailyTotalMg(use.mg, use.entry.intervalHours) ?? 0;
+    const stages = bySymptom.get(use.entry.symptomKey) ?? new Map<string, number>();
+    stages.set(use.entry.stageKey, (stages.get(use.entry.stageKey) ?? 0) + daily);
+    bySymptom.set(use.entry.symptomKey, stages);
+  }
+  return [...bySymptom.values()].reduce((sum, stages) => sum + Math.max(...stages.values()), 0);
+}
+
+function checkDuplicates(uses: IngredientUse[]): MedicationWarning[] {
+  const byIngredient = new Map<string, IngredientUse[]>();
+  for (const use of uses) {
+    const key = use.name.toLowerCase();
+    byIngredient.set(key, [...(byIngredient.get(key) ?? []), use]);
+  }
+
+  const warnings: MedicationWarning[] = [];
+  for (const group of byIngredient.values()) {
+    const overlapping = group.filter(use => group.some(other => takenTogether(use.entry, other.entry)));
+    if (overlapping.length < 2) {
+      continue;
+    }
+    const ingredient = overlapping[0].name;
+    const medications = unique(overlapping.map(use => use.entry));
+    warnings.push({
+      kind: 'duplicate',
+      severity: 'caution',
+      title: `${ingredient} in more than one medication`,
+      message: `${medications.map(describeEntry).join(', ')} all contain ${ingredient}.`,
+      medications,
+    });
+
+    const limit = findDoseLimit(ingredient);
+    const totalMg = combinedDailyMg(overlapping);
+    if (limit && totalMg > limit.usualMaxMg) {
+      const aboveAbsolute = totalMg > limit.absoluteMaxMg;
+      warnings.push({
+        kind: 'dailyTotal',
+        severity: aboveAbsolute ? 'danger' : 'caution',
+        title: `Too much ${ingredient} in a day`,
+        message: `Together they can add up to ${formatMg(totalMg)} of ${ingredient} a day, above the ${
+          aboveAbsolute ? 'maximum' : 'usual maximum'
+        } of ${formatMg(aboveAbsolute ? limit.absoluteMaxMg : limit.usualMaxMg)}.`,
+        medications,
+      });
+    }
+  }
+  return warnings;
+}
+
+function findInteraction(a: string, b: string): { severity: WarningSeverity; description: string } | null {
+  const pair = [a.toLowerCase(), b.toLowerCase()];
+  const known = INTERACTIONS.find(interaction =>
+    interaction.ingredients.every(name => pair.includes(name.toLowerCase()))
+  );
+  if (known) {
+    return { severity: known.severity === 'major' ? 'danger' : 'caution', description: known.description };
+  }
+  const sharedClass = INGREDIENT_CLASSES.find(group => group.ingredients.includes(a) && group.ingredients.includes(b));
+  return sharedClass ? { severity: 'caution', description: sharedClass.warning } : null;
+}
+
+function checkInteractions(uses: IngredientUse[]): MedicationWarning[] {
+  const found = new Map<string, MedicationWarning>();
+  uses.forEach((use, index) => {
+    for (const other of uses.slice(index + 1)) {
+      if (use.name.toLowerCase() === other.name.toLowerCase() || !takenTogether(use.entry, other.entry)) {
+        continue;
+      }
+      const interaction = findInteraction(use.name, other.name);
+      if (!interaction) {
+        continue;
+      }
+      // One warning per pair of ingredients, however many medications bring them in
+      const [first, second] = [use.name, other.name].sort();
+      const key = `${first}+${second}`;
+      const existing = found.get(key);
+      found.set(key, {
+        kind: 'interaction',
+        severity: interaction.severity,
+        title: `${first} and ${second}`,
+        message: interaction.description,
+        medications: unique([...(existing?.medications ?? []), use.entry, other.entry]),
+      });
+    }
+  });
+  return [...found.values()];
+}
+
+// Dangerous warnings first
+export function checkMedications(entries: MedicationEntry[]): MedicationWarning[] {
+  const uses = entries.flatMap(entry =>
+    getIngredients(entry.name, entry.quantityMg, entry.formularyId).map(ingredient => ({ ...ingredient, entry }))
+  );
+  return [...checkDuplicates(uses), ...checkInteractions(uses)].sort(
+    (a, b) => (a.severity === 'danger' ? 0 : 1) - (b.severity === 'danger' ? 0 : 1)
+  );
+}
+
+// Only the warnings that medications still being entered would introduce
+export function checkNewMedications(existing: MedicationEntry[], added: MedicationEntry[]): MedicationWarning[] {
+  const marked = added.map(entry => ({ ...entry, isNew: true }));
+  return checkMedications([...existing, ...marked]).filter(warning => warning.medications.some(m => m.isNew));
+}
+
+export type { MedicationEntry, MedicationWarning, IngredientDose, WarningSeverity };
@@ -0,0 +1,257 @@
+// src/utils/report.ts
+import type { Intake, Symptom } from '../services/api';
+import type { Episode } from '../store/episodeStore';
+import {
+  DEFAULT_ON_TIME_WINDOW,
+  collectAdherenceDoses,
+  filterDoses,
+  summarizeAdherence,
+  type AdherenceSummary,
+} from './adherence';
+import { describeSeverity } from './episodes';
+import { getCurrentStage, type CurrentStages } from './stages';
+
+type ReportFormat = 'csv' | 'json' | 'html';
+
+interface ReportRange {
+  from: Date | null; // null for all history
+  to: Date;
+}
+
+// Everything a report is built from: the symptom tree with only the intakes in range
+interface ReportData {
+  generatedAt: Date;
+  range: ReportRange;
+  symptoms: Symptom[];
+  currentStages: CurrentStages;
+  episodes: Episode[];
+  adherence: AdherenceSummary;
+}
+
+const REPORT_VERSION = 1;
+
+const inRange = (iso: string, range: ReportRange) => {
+  const time = Date.parse(iso);
+  return (range.from === null || time >= range.from.getTime()) && time <= range.to.getTime();
+};
+
+// Limit the report to one symptom and to the intakes and episodes within the range
+export function buildReport(
+  symptoms: Symptom[],
+  currentStages: CurrentStages,
+  episodes: Episode[],
+  range: ReportRange,
+  symptomId: number | null = null
+): ReportData {
+  const chosen = symptoms
+    .filter(symptom => symptomId === null || symptom.id === symptomId)
+    .map(symptom => ({
+      ...symptom,
+      stages: symptom.stages.map(stage => ({
+        ...stage,
+        medication: stage.medication.map(medication => ({
+          ...medication,
+          intakes: medication.intakes.filter(intake => inRange(intake.scheduledTime, range)),
+        })),
+      })),
+    }));
+  const doses = filterDoses(collectAdherenceDoses(symptoms, currentStages, range.to), {
+    ...range,
+    symptomId,
+    medicationId: null,
+  });
+
+  return {
+    generatedAt: new Date(),
+    range,
+    symptoms: chosen,
+    currentStages,
+    episodes: episodes.filter(
+      episode => chosen.some(symptom => symptom.id === episode.symptomId) && inRange(episode.startedAt, range)
+    ),
+    adherence: summarizeAdherence(doses, DEFAULT_ON_TIME_WINDOW),
+  };
+}
+
+// Every intake in the report with where it sits in the tree, oldest first
+function listIntakes(report: ReportData) {
+  return report.symptoms
+    .flatMap(symptom =>
+      symptom.stages.flatMap(stage =>
+        stage.medication.flatMap(medication => medication.intakes.map(intake => ({ intake, medication, stage, symptom })))
+      )
+    )
+    .sort((a, b) => Date.parse(a.intake.scheduledTime) - Date.parse(b.intake.scheduledTime));
+}
+
+const getIntakeStatus = (intake: Intake) => (intake.actualTime ? 'taken' : 'skipped');
+
+const getDelayMinutes = (intake: Intake) =>
+  intake.actualTime ? Math.round((Date.parse(intake.actualTime) - Date.parse(intake.scheduledTime)) / 60000) : null;
+
+// Quote a field when it contains a separator, quote or line break. Text a spreadsheet would
+// run as a formula, e.g. a symptom named "=HYPERLINK(...)" or one starting with a tab, is
+// prefixed with ' to keep it text.
+function csvField(value: string | number | null): string {
+  let text = value === null ? '' : `${value}`;
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  'symptom',
+  'stage',
+  'medication',
+  'dose_mg',
+  'interval_hours',
+  'scheduled_time',
+  'actual_time',
+  'status',
+  'delay_minutes',
+];
+
+// One row per logged intake, oldest first
+export function toCSV(report: ReportData): string {
+  const rows = listIntakes(report).map(({ intake, medication, stage, symptom }) => [
+    symptom.name,
+    stage.name,
+    medication.name,
+    medication.quantityMg,
+    medication.intervalHours,
+    intake.scheduledTime,
+    intake.actualTime,
+    getIntakeStatus(intake),
+    getDelayMinutes(intake),
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+}
+
+export function toJSON(report: ReportData): string {
+  return JSON.stringify(
+    {
+      format: 'trackyourmeds-report',
+      version: REPORT_VERSION,
+      generatedAt: report.generatedAt.toISOString(),
+      range: { from: report.range.from?.toISOString() ?? null, to: report.range.to.toISOString() },
+      symptoms: report.symptoms.map(symptom => ({
+        ...symptom,
+        currentStageId: symptom.isActive ? getCurrentStage(symptom, report.currentStages)?.id ?? null : null,
+      })),
+      episodes: report.episodes,
+      adherence: report.adherence,
+    },
+    null,
+    2
+  );
+}
+
+function escapeHTML(value: string | number): string {
+  return `${value}`
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatDate = (date: Date) => date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+const table = (headers: string[], rows: (string | number)[][]) =>
+  rows.length === 0
+    ? '<p class="empty">None</p>'
+    : `<table><thead><tr>${headers.map(h => `<th>${escapeHTML(h)}</th>`).join('')}</tr></thead><tbody>${rows
+        .map(row => `<tr>${row.map(cell => `<td>${escapeHTML(cell)}</td>`).join('')}</tr>`)
+        .join('')}</tbody></table>`;
+
+const STYLE = `body{font-family:-apple-system,Helvetica,Arial,sans-serif;color:#333;margin:24px}
+h1{font-size:22px}h2{font-size:18px;margin-top:28px}h3{font-size:15px;margin-bottom:4px}
+table{border-collapse:collapse;width:100%;font-size:13px;margin-bottom:12px}
+th,td{border:1px solid #ddd;padding:4px 8px;text-align:left}th{background:#f5f5f5}
+.meta,.empty{color:#666;font-size:13px}`;
+
+// A self-contained page a doctor can read or print
+export function toHTML(report: ReportData): string {
+  const { adherence } = report;
+  const period = `${report.range.from ? formatDate(report.range.from) : 'All history'} – ${formatDate(report.range.to)}`;
+  const names = new Map(report.symptoms.map(symptom => [symptom.id, symptom.name]));
+
+  const regimen = report.symptoms
+    .map(symptom => {
+      const current = symptom.isActive ? getCurrentStage(symptom, report.currentStages) : null;
+      const rows = symptom.stages.flatMap(stage =>
+        stage.medication.map(medication => [
+          `${stage.name}${stage === current ? ' (current)' : ''}`,
+          medication.name,
+          `${medication.quantityMg} mg`,
+          `every ${medication.intervalHours} h`,
+          `${medication.totalDays} days`,
+        ])
+      );
+      return `<h3>${escapeHTML(symptom.name)}${symptom.isActive ? '' : ' (inactive)'}</h3>${table(
+        ['Stage', 'Medication', 'Dose', 'Interval', 'Course'],
+        rows
+      )}`;
+    })
+    .join('');
+
+  const episodes = table(
+    ['Symptom', 'Started', 'Ended', 'Course', 'Notes'],
+    report.episodes.map(episode => [
+      names.get(episode.symptomId) ?? '',
+      formatDateTime(episode.startedAt),
+      episode.endedAt ? formatDateTime(episode.endedAt) : 'Ongoing',
+      episode.updates
+        .map(update => `${update.stageName ? `${update.stageName} ` : ''}${describeSeverity(update.severity)}`)
+        .join(' → '),
+      episode.updates.map(update => update.notes).filter(Boolean).join('; '),
+    ])
+  );
+
+  const intakes = table(
+    ['Scheduled', 'Taken', 'Medication', 'Symptom'],
+    listIntakes(report).map(({ intake, medication, symptom }) => [
+      formatDateTime(intake.scheduledTime),
+      intake.actualTime ? formatDateTime(intake.actualTime) : 'Skipped',
+      `${medication.name} ${medication.quantityMg} mg`,
+      symptom.name,
+    ])
+  );
+
+  const adherenceText =
+    adherence.total === 0
+      ? 'No doses were due in this period.'
+      : `${adherence.taken} of ${adherence.total} doses taken (${adherence.takenPercent}%): ` +
+        `${adherence.onTime} within ${DEFAULT_ON_TIME_WINDOW} minutes of schedule, ${adherence.late} late, ` +
+        `${adherence.early > 0 ? `${adherence.early} early, ` : ''}${adherence.missed} missed.`;
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Medication report</title><style>${STYLE}</style></head>
+<body>
+<h1>Medication report</h1>
+<p class="meta">Period: ${escapeHTML(period)}<br>Created: ${escapeHTML(formatDateTime(report.generatedAt.toISOString()))}</p>
+<h2>Adherence</h2>
+<p>${escapeHTML(adherenceText)}</p>
+<h2>Regimen</h2>${regimen || '<p class="empty">None</p>'}
+<h2>Episodes</h2>${episodes}
+<h2>Intake history</h2>${intakes}
+</body></html>`;
+}
+
+export function formatReport(report: ReportData, format: ReportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCSV(report);
+    case 'json':
+      return toJSON(report);
+    case 'html':
+      return toHTML(report);
+  }
+}
+
+export type { ReportFormat, ReportRange, ReportData };
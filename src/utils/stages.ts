@@ -0,0 +1,65 @@
+// src/utils/stages.ts
+import type { Stage, Symptom } from '../services/api';
+
+// The stage the user is in for each symptom, by symptom id. Stages are listed
+// mildest first, so escalating moves one stage further down the list.
+type CurrentStages = Record<number, number>;
+
+// The chosen stage while it still exists, otherwise the mildest one
+export function getCurrentStage(symptom: Symptom, currentStages: CurrentStages): Stage | null {
+  const chosen = symptom.stages.find(stage => stage.id === currentStages[symptom.id]);
+  return chosen ?? symptom.stages[0] ?? null;
+}
+
+// The stage one step up (1) or down (-1) from the current one; null at either end
+export function getNextStage(symptom: Symptom, currentStages: CurrentStages, step: 1 | -1): Stage | null {
+  const current = getCurrentStage(symptom, currentStages);
+  if (!current) {
+    return null;
+  }
+  return symptom.stages[symptom.stages.indexOf(current) + step] ?? null;
+}
+
+// Whether the stage's medications are due, as opposed to only having a history
+export function isScheduledStage(symptom: Symptom, stage: Stage, currentStages: CurrentStages): boolean {
+  return symptom.isActive && getCurrentStage(symptom, currentStages)?.id === stage.id;
+}
+
+// The active symptoms with only their current stage, i.e. the medications that are actually due
+export function buildRegimen(symptoms: Symptom[], currentStages: CurrentStages): Symptom[] {
+  return symptoms
+    .filter(symptom => symptom.isActive)
+    .map(symptom => {
+      const stage = getCurrentStage(symptom, currentStages);
+      return { ...symptom, stages: stage ? [stage] : [] };
+    });
+}
+
+// Returns an error message if the name is empty or already used by another stage
+export function validateStageName(
+  stages: { name: string }[],
+  name: string,
+  ignoreIndex: number | null = null
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Please enter a stage name';
+  }
+  const isDuplicate = stages.some(
+    (stage, index) => index !== ignoreIndex && stage.name.trim().toLowerCase() === trimmed.toLowerCase()
+  );
+  return isDuplicate ? `A stage called "${trimmed}" already exists` : null;
+}
+
+// The list with the stage at `index` swapped with its neighbour; unchanged at either end
+export function reorderStages<T>(stages: T[], index: number, direction: -1 | 1): T[] {
+  const targetIndex = index + direction;
+  if (targetIndex < 0 || targetIndex >= stages.length) {
+    return stages;
+  }
+  const moved = [...stages];
+  [moved[index], moved[targetIndex]] = [moved[targetIndex], moved[index]];
+  return moved;
+}
+
+export type { CurrentStages };